@@ -1,39 +1,125 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { PanelData, DiffLine, ThreePanelLayout, EditorTheme, Match, FindOptions } from './types';
-import { calculateDiff } from './utils/diff';
+import { PanelData, DiffLine, ThreePanelLayout, EditorTheme, Match, FindOptions, FindScope, DiffOptions, ChangeNavigationRequest, ConflictResolution, LineRevealRequest, MergeChunk, CompareMode, DiffHunk, DiffViewMode, ExportFormat, FoldCommand, HunkAction, StructuralDiff, StructuralMode, StructureNode, Table, TableDiff, Workspace, WorkspaceSummary } from './types';
+import { calculateDiff, calculateRawDiff, DEFAULT_DIFF_OPTIONS } from './utils/diff';
+import { getDiffTokens } from './utils/codeTokens';
+import { calculateDiffInWorker, shouldDiffInWorker, DIFF_DEBOUNCE_MS } from './services/diffWorker';
 import { summarizeDifferences } from './services/geminiService';
-import { generateSimpleSummary } from './utils/summary';
+import { generateSimpleSummary, generateStructuralSummary } from './utils/summary';
 import { Header } from './components/Header';
 import { EditorPanel } from './components/EditorPanel';
 import { FindReplaceWidget } from './components/FindReplaceWidget';
+import { FindResult, FindResultsSidebar } from './components/FindResultsSidebar';
 import { HelpModal } from './components/HelpModal';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { escapeRegExp } from './utils/regex';
+import { MergeResultPanel } from './components/MergeResultPanel';
+import { SimilarityMatrixModal } from './components/SimilarityMatrixModal';
+import { PatchImportModal } from './components/PatchImportModal';
+import { StatsDrawer } from './components/StatsDrawer';
+import { TableDiffPanel } from './components/TableDiffPanel';
+import { IgnoreRulesModal } from './components/IgnoreRulesModal';
+import { createSearchRegExp, getReplacement } from './utils/regex';
+import { computeThreeWayMerge, renderMergedText } from './utils/merge';
+import { downloadTextFile } from './utils/download';
+import { getStructuredFormatFromTitle, structuredFormats } from './utils/structuredFormats';
+import { diffStructures, structuralDiffLines } from './utils/structuralDiff';
+import { getTableDelimiter, isTablePanel, parseDelimited } from './utils/csv';
+import { diffTables, tableDiffLines } from './utils/tableDiff';
+import { computeDiffStats, PanelStats } from './utils/stats';
+import { resolveHunk } from './utils/hunks';
+import { alignPanels, SplitView } from './utils/align';
+import { createHistory, goToHistoryEntry, PanelHistory, recordHistory } from './utils/history';
+import { DEFAULT_WORKSPACE_NAME, getWorkspaceFileName, parseWorkspaceFile, serializeWorkspace } from './utils/workspace';
+import { deleteWorkspace, listWorkspaces, loadWorkspace, saveWorkspace } from './services/workspaceStore';
+import { findChangedLines, findFoldableRanges, findUnchangedRanges, getLineAtOffset, getLineStarts } from './utils/editor';
+import { getPanelLanguage, getWordCharacterPattern } from './utils/language';
+import { isGrammarLoaded, loadPrismLanguage } from './services/prismLoader';
+import { Comparison, exportHtmlReport, exportJson, exportUnifiedDiff, readThemeColors } from './utils/export';
 
 const initialPanels: PanelData[] = [
     { id: crypto.randomUUID(), text: 'const Greeter = (name) => {\n  console.log("Hello, " + name);\n};\n\nGreeter("World");', title: 'Original JavaScript' },
     { id: crypto.randomUUID(), text: 'function Greeter(name) {\n  // A friendly greeting\n  console.log(`Hello, ${name}!`);\n}\n\nGreeter("Universe");\n', title: 'Refactored TypeScript' }
 ];
 
+// How long the workspace waits after a change before it is saved.
+const WORKSPACE_SAVE_DELAY_MS = 1000;
+
+// What a worker diff is computed from. A job is kept and a result used only while all of it is unchanged.
+interface DiffInputs {
+    baseText: string;
+    text: string;
+    options: DiffOptions;
+    // The languages of both panels and the grammars loaded, which the code diff tokens depend on.
+    languages: string;
+    grammarVersion: number;
+}
+
+interface DiffJob extends DiffInputs {
+    controller: AbortController;
+}
+
+interface WorkerDiffResult extends DiffInputs {
+    diff: DiffLine[];
+}
+
+const isSameDiffInputs = (a: DiffInputs, b: DiffInputs): boolean =>
+    a.baseText === b.baseText && a.text === b.text && a.options === b.options &&
+    a.languages === b.languages && a.grammarVersion === b.grammarVersion;
+
 const App: React.FC = () => {
-    const [panels, setPanels] = useState<PanelData[]>(initialPanels);
-    const [diffResults, setDiffResults] = useState<(DiffLine[] | null)[]>([]);
+    // Panel History: every state of the panels that undo/redo can go back to; the current one is shown.
+    const [history, setHistory] = useState<PanelHistory>(() => createHistory(initialPanels));
+    const panels = history.entries[history.index].panels;
+
+    // Workspace State: the open comparison is autosaved to IndexedDB under this id.
+    const [workspaceId, setWorkspaceId] = useState<string>(() => crypto.randomUUID());
+    const [workspaceName, setWorkspaceName] = useState(DEFAULT_WORKSPACE_NAME);
+    const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+    // Autosave waits until the last workspace has been reopened, so it cannot overwrite it with the defaults.
+    const [isWorkspaceRestored, setIsWorkspaceRestored] = useState(false);
+    const [workerDiffs, setWorkerDiffs] = useState<Map<string, WorkerDiffResult>>(new Map());
     const [summary, setSummary] = useState<string>('');
     const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
+    const [isStatsVisible, setIsStatsVisible] = useState(false);
     const [threePanelLayout, setThreePanelLayout] = useState<ThreePanelLayout>('stacked');
     const [theme, setTheme] = useState<EditorTheme>('dark');
+    const [diffOptions, setDiffOptions] = useState<DiffOptions>(DEFAULT_DIFF_OPTIONS);
+
+    // Comparison State: every panel is diffed against the chosen base panel, or against its predecessor in chain mode.
+    const [compareMode, setCompareMode] = useState<CompareMode>('base');
+    const [basePanelId, setBasePanelId] = useState<string>(initialPanels[0].id);
+    const [isMatrixVisible, setIsMatrixVisible] = useState(false);
+    const [isPatchModalVisible, setIsPatchModalVisible] = useState(false);
+    const [isIgnoreRulesVisible, setIsIgnoreRulesVisible] = useState(false);
+    const [viewMode, setViewMode] = useState<DiffViewMode>('inline');
+    const [structuralMode, setStructuralMode] = useState<StructuralMode>('off');
+    // Table Mode State: CSV/TSV panels are compared row by row, matched on the key columns (by position if none).
+    const [isTableMode, setIsTableMode] = useState(false);
+    const [tableKeyColumns, setTableKeyColumns] = useState<string[]>([]);
+
+    // Change Navigation State: F7 / Shift+F7 move through the changes of the last panel the user worked in.
+    const [activePanelId, setActivePanelId] = useState<string | null>(null);
+    const [changeNavigation, setChangeNavigation] = useState<ChangeNavigationRequest & { panelId: string } | null>(null);
+    const [lineReveal, setLineReveal] = useState<LineRevealRequest & { panelId: string } | null>(null);
+
+    // Three-way Merge State: panel 0 is the common ancestor, 1 is "ours" and 2 is "theirs".
+    const [isMergeMode, setIsMergeMode] = useState(false);
+    const [mergeResolutions, setMergeResolutions] = useState<Map<string, ConflictResolution>>(new Map());
     
     // Find & Replace State
     const [isFindVisible, setIsFindVisible] = useState(false);
     const [findQuery, setFindQuery] = useState('');
     const [replaceQuery, setReplaceQuery] = useState('');
-    const [findOptions, setFindOptions] = useState<FindOptions>({ caseSensitive: false, useRegex: false });
+    const [findOptions, setFindOptions] = useState<FindOptions>({ caseSensitive: false, useRegex: false, wholeWord: false });
+    const [findScope, setFindScope] = useState<FindScope>('all');
+    const [isFindResultsVisible, setIsFindResultsVisible] = useState(false);
     const [matches, setMatches] = useState<Match[]>([]);
     const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
 
     // Code Folding State
     const [foldedLines, setFoldedLines] = useState<Map<string, Set<number>>>(new Map());
+    // Hunk View State: null shows every line, a number collapses unchanged lines beyond that much context.
+    const [contextLines, setContextLines] = useState<number | null>(null);
     
     // Help Modal State
     const [isHelpVisible, setIsHelpVisible] = useState(false);
@@ -44,6 +130,7 @@ const App: React.FC = () => {
 
     const panelScrollRefs = useRef<(HTMLDivElement | null)[]>([]);
     const isSyncingScroll = useRef(false);
+    const diffJobsRef = useRef<Map<string, DiffJob>>(new Map());
 
     // Theme Management Effect
     useEffect(() => {
@@ -59,82 +146,284 @@ const App: React.FC = () => {
         });
     }, [theme]);
 
-    // Diff Calculation Effect
+    const isMergeActive = isMergeMode && panels.length === 3;
+
+    // Which panel each panel is diffed against (null for a panel that is not compared).
+    // Merge mode always compares "ours" and "theirs" against the ancestor in panel 0.
+    const basePanelIndex = Math.max(0, panels.findIndex(p => p.id === basePanelId));
+    const comparisonBases = useMemo<(number | null)[]>(() => panels.map((_, index) => {
+        if (panels.length < 2) return null;
+        if (compareMode === 'chain' && !isMergeActive) return index > 0 ? index - 1 : null;
+        const baseIndex = isMergeActive ? 0 : basePanelIndex;
+        return index === baseIndex ? null : baseIndex;
+    }), [panels, compareMode, isMergeActive, basePanelIndex]);
+
+    // Panel Languages: picked in each panel header, otherwise detected from the title and text.
+    // Grammars beyond those in index.html are fetched when a panel first needs them; the version
+    // changes whenever one arrives, so highlighting and code diff tokens are redone.
+    const panelLanguages = useMemo(() => panels.map(getPanelLanguage), [panels]);
+    const [grammarVersion, setGrammarVersion] = useState(0);
+
     useEffect(() => {
-        if (panels.length < 2) {
-            setDiffResults(panels.map(() => null));
-            return;
-        }
-        const baseText = panels[0].text;
-        const newDiffs = panels.map((panel, index) => {
-            if (index === 0) return null; // Base panel has no diff against itself
-            return calculateDiff(baseText, panel.text);
+        new Set<string>(panelLanguages).forEach(language => {
+            if (isGrammarLoaded(language)) return;
+            loadPrismLanguage(language).then(isLoaded => {
+                if (isLoaded) setGrammarVersion(v => v + 1);
+            });
         });
-        setDiffResults([null, ...newDiffs.slice(1)]);
-    }, [panels]);
+    }, [panelLanguages]);
+    // Only the code diff depends on languages and grammars, so other diffs are not redone when they change.
+    const diffGrammarVersion = diffOptions.tokenDiff ? grammarVersion : 0;
+    const getDiffInputs = useCallback((baseIndex: number, index: number): DiffInputs => ({
+        baseText: panels[baseIndex].text,
+        text: panels[index].text,
+        options: diffOptions,
+        languages: diffOptions.tokenDiff ? `${panelLanguages[baseIndex]}>${panelLanguages[index]}` : '',
+        grammarVersion: diffGrammarVersion,
+    }), [panels, diffOptions, panelLanguages, diffGrammarVersion]);
 
-    // Find Matches Effect
+    // Worker Diff Effect: large comparisons are debounced and diffed off the main thread.
+    // Each panel has at most one job; a job is cancelled as soon as its inputs change.
     useEffect(() => {
-        if (!findQuery || !isFindVisible) {
-            setMatches([]);
-            setActiveMatchIndex(-1);
-            return;
+        const jobs = diffJobsRef.current;
+        const activeIds = new Set<string>();
+
+        panels.forEach((panel, index) => {
+            const baseIndex = comparisonBases[index];
+            if (baseIndex === null) return;
+            const baseText = panels[baseIndex].text;
+            if (!shouldDiffInWorker(baseText, panel.text)) return;
+            activeIds.add(panel.id);
+
+            const inputs = getDiffInputs(baseIndex, index);
+            const job = jobs.get(panel.id);
+            if (job && isSameDiffInputs(job, inputs)) return;
+            job?.controller.abort();
+
+            const controller = new AbortController();
+            jobs.set(panel.id, { ...inputs, controller });
+
+            const timer = setTimeout(() => {
+                const tokens = getDiffTokens(panels[baseIndex], panel, diffOptions);
+                calculateDiffInWorker(baseText, panel.text, diffOptions, controller.signal, tokens)
+                    .then(diff => {
+                        setWorkerDiffs(prev => new Map(prev).set(panel.id, { ...inputs, diff }));
+                    })
+                    .catch(error => {
+                        if (error instanceof DOMException && error.name === 'AbortError') return;
+                        console.error("Error calculating diff in worker:", error);
+                    });
+            }, DIFF_DEBOUNCE_MS);
+            controller.signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+        });
+
+        jobs.forEach((job, panelId) => {
+            if (!activeIds.has(panelId)) {
+                job.controller.abort();
+                jobs.delete(panelId);
+            }
+        });
+    }, [panels, comparisonBases, diffOptions, getDiffInputs]);
+
+    useEffect(() => {
+        const jobs = diffJobsRef.current;
+        return () => {
+            jobs.forEach(job => job.controller.abort());
+            jobs.clear();
+        };
+    }, []);
+
+    // Diff Results: small comparisons are computed synchronously; large ones come from the worker
+    // and are null while their computation is pending.
+    const diffResults = useMemo<(DiffLine[] | null)[]>(() => {
+        return panels.map((panel, index) => {
+            const baseIndex = comparisonBases[index];
+            if (baseIndex === null) return null; // The base panel has no diff against itself
+            const baseText = panels[baseIndex].text;
+            if (!shouldDiffInWorker(baseText, panel.text)) {
+                return calculateDiff(baseText, panel.text, diffOptions, getDiffTokens(panels[baseIndex], panel, diffOptions));
+            }
+            const result = workerDiffs.get(panel.id);
+            return result && isSameDiffInputs(result, getDiffInputs(baseIndex, index)) ? result.diff : null;
+        });
+    }, [panels, comparisonBases, workerDiffs, diffOptions, diffGrammarVersion, getDiffInputs]);
+
+    // Structural Diffs: in structural mode every panel is parsed (as the format its title suggests,
+    // unless one was chosen) and compared with its base by path. Parse errors are reported on the
+    // panel that failed and on panels compared with it.
+    const structuralDiffs = useMemo<(StructuralDiff | null)[]>(() => {
+        if (structuralMode === 'off') return panels.map(() => null);
+        const trees = panels.map(panel => {
+            const format = structuralMode === 'auto' ? getStructuredFormatFromTitle(panel.title) : structuralMode;
+            if (!format) {
+                return { tree: null, error: `Cannot tell the format of "${panel.title}" from its title. Choose one next to the structural diff button.` };
+            }
+            const { label, parse } = structuredFormats[format];
+            try {
+                return { tree: parse(panel.text), error: null };
+            } catch (error) {
+                return { tree: null, error: `Invalid ${label}: ${error instanceof Error ? error.message : String(error)}` };
+            }
+        });
+        return panels.map((_, index): StructuralDiff => {
+            const { tree, error } = trees[index];
+            if (error) return { changes: [], error };
+            const baseIndex = comparisonBases[index];
+            if (baseIndex === null) return { changes: [], error: null };
+            const baseTree = trees[baseIndex].tree;
+            if (!baseTree) return { changes: [], error: `"${panels[baseIndex].title}" could not be parsed, so it cannot be compared.` };
+            return { changes: diffStructures(baseTree, tree as StructureNode), error: null };
+        });
+    }, [structuralMode, panels, comparisonBases]);
+
+    // Table Diffs: in table mode every panel is parsed as CSV or TSV and compared with its base row by row.
+    const tables = useMemo<{ table: Table | null; error: string | null }[]>(() => {
+        if (!isTableMode) return [];
+        return panels.map(panel => {
+            try {
+                return { table: parseDelimited(panel.text, getTableDelimiter(panel.title, panel.text)), error: null };
+            } catch (error) {
+                return { table: null, error: `Invalid CSV: ${error instanceof Error ? error.message : String(error)}` };
+            }
+        });
+    }, [isTableMode, panels]);
+
+    const tableDiffs = useMemo<(TableDiff | null)[]>(() => panels.map((panel, index) => {
+        const baseIndex = comparisonBases[index];
+        if (!isTableMode || baseIndex === null) return null;
+        const { table, error } = tables[index];
+        if (error) return { columns: [], rows: [], error };
+        const baseTable = tables[baseIndex].table;
+        if (!baseTable) return { columns: [], rows: [], error: `"${panels[baseIndex].title}" could not be parsed, so it cannot be compared.` };
+        return diffTables(baseTable, table!, tableKeyColumns);
+    }), [isTableMode, panels, comparisonBases, tables, tableKeyColumns]);
+
+    // Table mode is offered when every panel holds a CSV or TSV table.
+    const hasTables = useMemo(() => panels.every(panel => isTablePanel(panel.title, panel.text)), [panels]);
+
+    // Table mode and structural mode replace each other.
+    const handleStructuralModeChange = useCallback((mode: StructuralMode) => {
+        setStructuralMode(mode);
+        if (mode !== 'off') setIsTableMode(false);
+    }, []);
+
+    const handleToggleTableMode = useCallback(() => {
+        setIsTableMode(v => !v);
+        setStructuralMode('off');
+    }, []);
+
+    // What each panel highlights: its structural changes in structural mode, otherwise the line diff.
+    // Panels that cannot be compared structurally fall back to the line diff.
+    const displayDiffs = useMemo<(DiffLine[] | null)[]>(() => panels.map((panel, index) => {
+        const structural = structuralDiffs[index];
+        if (!structural || structural.error) return diffResults[index];
+        const baseIndex = comparisonBases[index];
+        if (baseIndex === null) return null;
+        return structuralDiffLines(panels[baseIndex].text, panel.text, structural.changes);
+    }), [panels, structuralDiffs, diffResults, comparisonBases]);
+
+    // Split View: panels are aligned row by row. Structural and table comparisons keep their own layout.
+    const splitViews = useMemo<SplitView[] | null>(() => {
+        if (viewMode !== 'split' || structuralMode !== 'off' || tableDiffs.some(Boolean)) return null;
+        return alignPanels(panels.map(p => p.text), diffResults, comparisonBases);
+    }, [viewMode, structuralMode, tableDiffs, panels, diffResults, comparisonBases]);
+
+    // The merge works on raw diffs, so lines the diff options treat as equal keep their differences.
+    const mergeChunks = useMemo<MergeChunk[] | null>(() => {
+        if (!isMergeActive || !diffResults[1] || !diffResults[2]) return null;
+        const [base, ours, theirs] = panels;
+        return computeThreeWayMerge(
+            base.text,
+            calculateRawDiff(base.text, ours.text, diffOptions, diffResults[1]),
+            calculateRawDiff(base.text, theirs.text, diffOptions, diffResults[2])
+        );
+    }, [isMergeActive, panels, diffResults, diffOptions]);
+
+    const handleResolveConflict = useCallback((key: string, resolution: ConflictResolution | null) => {
+        setMergeResolutions(prev => {
+            const next = new Map(prev);
+            if (resolution) {
+                next.set(key, resolution);
+            } else {
+                next.delete(key);
+            }
+            return next;
+        });
+    }, []);
+
+    const handleExportMerge = useCallback(() => {
+        if (!mergeChunks) return;
+        const text = renderMergedText(mergeChunks, mergeResolutions, { ours: panels[1].title, theirs: panels[2].title });
+        downloadTextFile('merged-result.txt', text);
+    }, [mergeChunks, mergeResolutions, panels]);
+
+    // Diffs the worker has not finished yet are computed here, so the export leaves no panel out.
+    const handleExport = useCallback((format: ExportFormat) => {
+        const comparisons: Comparison[] = panels.flatMap((panel, index) => {
+            const baseIndex = comparisonBases[index];
+            if (baseIndex === null) return [];
+            const base = panels[baseIndex];
+            const diff = diffResults[index] ?? calculateDiff(base.text, panel.text, diffOptions, getDiffTokens(base, panel, diffOptions));
+            return [{ base, target: panel, diff }];
+        });
+        const exportContext = contextLines ?? undefined;
+        if (format === 'patch') {
+            downloadTextFile('changes.patch', exportUnifiedDiff(comparisons, diffOptions, exportContext), 'text/x-diff');
+        } else if (format === 'json') {
+            downloadTextFile('diff.json', exportJson(comparisons, diffOptions, exportContext), 'application/json');
+        } else {
+            downloadTextFile('diff-report.html', exportHtmlReport(comparisons, readThemeColors(document.body), exportContext), 'text/html');
         }
-        
-        const allMatches: Match[] = [];
-        try {
-            const query = findOptions.useRegex ? findQuery : escapeRegExp(findQuery);
-            const regex = new RegExp(query, findOptions.caseSensitive ? 'g' : 'gi');
-            
-            panels.forEach(panel => {
-                for (const match of panel.text.matchAll(regex)) {
-                    if (match.index !== undefined) {
-                        allMatches.push({
-                            panelId: panel.id,
-                            start: match.index,
-                            end: match.index + match[0].length,
-                        });
-                    }
-                }
-            });
+    }, [panels, comparisonBases, diffResults, contextLines, diffOptions, grammarVersion]);
 
-            setMatches(allMatches);
-            setActiveMatchIndex(allMatches.length > 0 ? 0 : -1);
-        } catch (error) {
-            // Invalid regex
+    // One search expression per panel, as what counts as a whole word depends on the panel's language.
+    const searchRegexes = useMemo(() => panelLanguages.map(language => (
+        createSearchRegExp(findQuery, findOptions, getWordCharacterPattern(language))
+    )), [findQuery, findOptions, panelLanguages]);
+
+    // The panel searched in the 'panel' scope, and the diffs the changed/unchanged scopes need.
+    const findScopePanelId = findScope === 'panel' ? (panels.find(p => p.id === activePanelId) ?? panels[0]).id : null;
+    const findScopeDiffs = findScope === 'changed' || findScope === 'unchanged' ? diffResults : null;
+
+    // Find Matches Effect
+    useEffect(() => {
+        if (!findQuery || !isFindVisible || searchRegexes.some(regex => !regex)) {
+            // Nothing to find, or an invalid regex
             setMatches([]);
             setActiveMatchIndex(-1);
+            return;
         }
-    }, [findQuery, findOptions, panels, isFindVisible]);
 
-    // Scroll to Active Match Effect
-    useEffect(() => {
-        if (activeMatchIndex === -1 || matches.length === 0) return;
-        
-        const activeMatch = matches[activeMatchIndex];
-        const panelIndex = panels.findIndex(p => p.id === activeMatch.panelId);
-        const panelRef = panelScrollRefs.current[panelIndex];
-        
-        if (panelRef) {
-            const textUntilMatch = panels[panelIndex].text.substring(0, activeMatch.start);
-            const lineNumber = textUntilMatch.split('\n').length;
-            const lineHeight = 24; // Corresponds to leading-6
-            const targetScrollTop = (lineNumber - 1) * lineHeight;
-
-            // Check if match is out of view
-            const isOutOfView = targetScrollTop < panelRef.scrollTop || targetScrollTop > (panelRef.scrollTop + panelRef.clientHeight - lineHeight * 2);
-
-            if (isOutOfView) {
-                panelRef.scrollTo({
-                    top: targetScrollTop - (panelRef.clientHeight / 3),
-                    behavior: 'smooth',
+        const allMatches: Match[] = [];
+        panels.forEach((panel, index) => {
+            if (findScopePanelId && panel.id !== findScopePanelId) return;
+            const changedLines = findScopeDiffs ? findChangedLines(index, findScopeDiffs, comparisonBases) : null;
+            const lineStarts = changedLines ? getLineStarts(panel.text) : [];
+            for (const match of panel.text.matchAll(searchRegexes[index]!)) {
+                if (match.index === undefined) continue;
+                if (changedLines && changedLines.has(getLineAtOffset(lineStarts, match.index) + 1) !== (findScope === 'changed')) continue;
+                allMatches.push({
+                    panelId: panel.id,
+                    start: match.index,
+                    end: match.index + match[0].length,
                 });
             }
-        }
-    }, [activeMatchIndex, matches, panels]);
+        });
+
+        setMatches(allMatches);
+        setActiveMatchIndex(allMatches.length > 0 ? 0 : -1);
+    }, [findQuery, searchRegexes, panels, isFindVisible, findScope, findScopePanelId, findScopeDiffs, comparisonBases]);
+
+    // Changes the panels as one undoable step. Steps with the same merge key in quick succession are undone together.
+    const recordPanels = useCallback((label: string, update: (prev: PanelData[]) => PanelData[], mergeKey?: string) => {
+        setHistory(prev => recordHistory(prev, label, update(prev.entries[prev.index].panels), mergeKey));
+    }, []);
+
+    const handleUndo = useCallback(() => setHistory(prev => goToHistoryEntry(prev, prev.index - 1)), []);
+    const handleRedo = useCallback(() => setHistory(prev => goToHistoryEntry(prev, prev.index + 1)), []);
 
     const addPanel = useCallback(() => {
-        setPanels(prev => {
+        recordPanels('Add panel', prev => {
             if (prev.length >= 4) return prev;
             const newPanel: PanelData = { 
                 id: crypto.randomUUID(), 
@@ -143,43 +432,84 @@ const App: React.FC = () => {
             };
             return [...prev, newPanel];
         });
-    }, []);
+    }, [recordPanels]);
 
     const removeLastPanel = useCallback(() => {
-        setPanels(currentPanels => {
-            if (currentPanels.length <= 2) {
-                return currentPanels;
-            }
-            const lastPanelId = currentPanels[currentPanels.length - 1].id;
-            
-            setFoldedLines(currentFoldedLines => {
-                const newFoldedLines = new Map(currentFoldedLines);
-                if (newFoldedLines.has(lastPanelId)) {
-                    newFoldedLines.delete(lastPanelId);
-                    return newFoldedLines;
-                }
-                return currentFoldedLines;
-            });
-    
-            return currentPanels.slice(0, -1);
+        if (panels.length <= 2) return;
+        const lastPanelId = panels[panels.length - 1].id;
+        recordPanels('Remove panel', currentPanels => (currentPanels.length <= 2 ? currentPanels : currentPanels.slice(0, -1)));
+        setFoldedLines(currentFoldedLines => {
+            if (!currentFoldedLines.has(lastPanelId)) return currentFoldedLines;
+            const newFoldedLines = new Map(currentFoldedLines);
+            newFoldedLines.delete(lastPanelId);
+            return newFoldedLines;
         });
-    }, []);
+    }, [panels, recordPanels]);
+
+    // Opens a patched copy of a panel next to it, compared against the original.
+    const handleApplyPatch = useCallback((sourcePanelId: string, title: string, text: string) => {
+        recordPanels('Apply patch', prev => (prev.length >= 4 ? prev : [...prev, { id: crypto.randomUUID(), text, title }]));
+        setCompareMode('base');
+        setBasePanelId(sourcePanelId);
+    }, [recordPanels]);
+
+    // Copies a change block into the base panel ('apply') or undoes it in the compared panel ('revert').
+    const handleHunkAction = useCallback((panelIndex: number, hunk: DiffHunk, action: HunkAction) => {
+        const baseIndex = comparisonBases[panelIndex];
+        if (baseIndex === null) return;
+        const base = panels[baseIndex];
+        const panel = panels[panelIndex];
+        const target = action === 'apply' ? base : panel;
+        const text = resolveHunk(base.text, panel.text, hunk, action);
+        const label = action === 'apply' ? `Apply change to ${target.title}` : `Revert change in ${target.title}`;
+        recordPanels(label, prev => prev.map(p => (p.id === target.id ? { ...p, text } : p)));
+    }, [comparisonBases, panels, recordPanels]);
+
+    const handleGoToChange = useCallback((direction: ChangeNavigationRequest['direction']) => {
+        const isCompared = (index: number) => index >= 0 && comparisonBases[index] !== null;
+        const activeIndex = panels.findIndex(p => p.id === activePanelId);
+        const index = isCompared(activeIndex) ? activeIndex : panels.findIndex((_, i) => isCompared(i));
+        if (index < 0) return;
+        setChangeNavigation(prev => ({ panelId: panels[index].id, direction, id: (prev?.id ?? 0) + 1 }));
+    }, [panels, comparisonBases, activePanelId]);
+
+    const panelTitle = (id: string) => panels.find(p => p.id === id)?.title ?? '';
 
     const updatePanelText = (id: string, newText: string) => {
-        setPanels(prev => prev.map(p => (p.id === id ? { ...p, text: newText } : p)));
+        recordPanels(`Edit ${panelTitle(id)}`, prev => prev.map(p => (p.id === id ? { ...p, text: newText } : p)), `text:${id}`);
     };
     
     const updatePanelTitle = (id: string, newTitle: string) => {
-        setPanels(prev => prev.map(p => (p.id === id ? { ...p, title: newTitle } : p)));
+        recordPanels(`Rename ${panelTitle(id)}`, prev => prev.map(p => (p.id === id ? { ...p, title: newTitle } : p)), `title:${id}`);
     };
 
-    const handleSimpleSummary = useCallback(() => {
-        if (panels.length < 2) {
-            setSummary("At least two panels are needed for a summary.");
-            return;
-        }
-        setSummary(generateSimpleSummary(diffResults, panels));
-    }, [diffResults, panels]);
+    const updatePanelLanguage = (id: string, language: string | null) => {
+        recordPanels(`Change language of ${panelTitle(id)}`, prev => prev.map(p => (p.id === id ? { ...p, language: language ?? undefined } : p)));
+    };
+
+    // The stats drawer follows the panels as they are edited, so both are only computed while it is open.
+    const simpleSummary = useMemo(() => {
+        if (!isStatsVisible) return '';
+        if (panels.length < 2) return "At least two panels are needed for a summary.";
+        if (structuralMode !== 'off') return generateStructuralSummary(structuralDiffs, panels);
+        return generateSimpleSummary(diffResults, panels, diffOptions, isTableMode ? tableDiffs : undefined);
+    }, [isStatsVisible, diffResults, panels, diffOptions, structuralMode, structuralDiffs, isTableMode, tableDiffs]);
+
+    // Statistics count the changes of the view shown: rows in table mode, values in structural mode.
+    const panelStats = useMemo<PanelStats[]>(() => {
+        if (!isStatsVisible) return [];
+        return panels.flatMap((panel, index) => {
+            const baseIndex = comparisonBases[index];
+            if (baseIndex === null) return [];
+            const tableDiff = tableDiffs[index];
+            if (tableDiff?.error) return [];
+            const diff = tableDiff ? tableDiffLines(panels[baseIndex].text, panel.text, tableDiff) : displayDiffs[index];
+            if (!diff) return [];
+            return [{ title: panel.title, baseTitle: panels[baseIndex].title, stats: computeDiffStats(diff, contextLines ?? undefined) }];
+        });
+    }, [isStatsVisible, panels, comparisonBases, tableDiffs, displayDiffs, contextLines]);
+
+    const handleSimpleSummary = useCallback(() => setIsStatsVisible(true), []);
 
     const handleAiSummary = useCallback(async () => {
         if (!apiKey) {
@@ -189,13 +519,168 @@ const App: React.FC = () => {
         if (isSummarizing) return;
         setIsSummarizing(true);
         setSummary('');
-        const result = await summarizeDifferences(panels, apiKey);
+        // The AI prompt treats the first panel as the base, so put the chosen base first.
+        const orderedPanels = compareMode === 'base'
+            ? [panels[basePanelIndex], ...panels.filter((_, i) => i !== basePanelIndex)]
+            : panels;
+        const result = await summarizeDifferences(orderedPanels, apiKey);
         setSummary(result);
         setIsSummarizing(false);
-    }, [panels, isSummarizing, apiKey]);
+    }, [panels, isSummarizing, apiKey, compareMode, basePanelIndex]);
     
     const toggleHelpModal = useCallback(() => setIsHelpVisible(v => !v), []);
 
+    // The open comparison as it is saved and exported.
+    const currentWorkspace = useMemo<Workspace>(() => {
+        const savedFolds: Record<string, number[]> = {};
+        panels.forEach(panel => {
+            const lines = foldedLines.get(panel.id);
+            if (lines && lines.size > 0) savedFolds[panel.id] = [...lines];
+        });
+        return {
+            id: workspaceId,
+            name: workspaceName,
+            updatedAt: Date.now(),
+            panels,
+            theme,
+            threePanelLayout,
+            viewMode,
+            compareMode,
+            basePanelId,
+            diffOptions,
+            foldedLines: savedFolds,
+        };
+    }, [workspaceId, workspaceName, panels, theme, threePanelLayout, viewMode, compareMode, basePanelId, diffOptions, foldedLines]);
+    const currentWorkspaceRef = useRef(currentWorkspace);
+    currentWorkspaceRef.current = currentWorkspace;
+
+    // The saves still running, by workspace id, and the workspaces deleted since the page
+    // loaded; a save that was scheduled before a delete must not bring the workspace back.
+    const pendingSavesRef = useRef<Map<string, Promise<void>>>(new Map());
+    const deletedWorkspaceIdsRef = useRef<Set<string>>(new Set());
+
+    const persistWorkspace = useCallback((workspace: Workspace) => {
+        if (deletedWorkspaceIdsRef.current.has(workspace.id)) return Promise.resolve();
+        const saved = { ...workspace, updatedAt: Date.now() };
+        const pendingSaves = pendingSavesRef.current;
+        // Saves of one workspace run in order, so an older one never finishes last.
+        const save = (pendingSaves.get(saved.id) ?? Promise.resolve())
+            .then(() => (deletedWorkspaceIdsRef.current.has(saved.id) ? undefined : saveWorkspace(saved)
+                .then(() => setWorkspaces(prev => [{ id: saved.id, name: saved.name, updatedAt: saved.updatedAt }, ...prev.filter(w => w.id !== saved.id)]))))
+            .catch(error => console.error('Could not save the workspace:', error))
+            .finally(() => {
+                if (pendingSaves.get(saved.id) === save) pendingSaves.delete(saved.id);
+            });
+        pendingSaves.set(saved.id, save);
+        return save;
+    }, []);
+
+    // Shows a workspace in place of the open one. Its edit history starts afresh, and the
+    // table and structure views, which are not saved with it, are turned off.
+    const openWorkspace = useCallback((workspace: Workspace) => {
+        setWorkspaceId(workspace.id);
+        setWorkspaceName(workspace.name);
+        setHistory(createHistory(workspace.panels));
+        setTheme(workspace.theme);
+        setThreePanelLayout(workspace.threePanelLayout);
+        setViewMode(workspace.viewMode);
+        setCompareMode(workspace.compareMode);
+        setBasePanelId(workspace.basePanelId);
+        setDiffOptions(workspace.diffOptions);
+        setFoldedLines(new Map(Object.entries(workspace.foldedLines).map(([id, lines]) => [id, new Set(lines)])));
+        setMergeResolutions(new Map());
+        setIsTableMode(false);
+        setStructuralMode('off');
+        setTableKeyColumns([]);
+    }, []);
+
+    // A workspace with two empty panels and the current view settings.
+    const createBlankWorkspace = (): Workspace => {
+        const blankPanels: PanelData[] = [
+            { id: crypto.randomUUID(), text: '', title: 'Original' },
+            { id: crypto.randomUUID(), text: '', title: 'Comparison 1' },
+        ];
+        return { ...currentWorkspace, id: crypto.randomUUID(), name: DEFAULT_WORKSPACE_NAME, panels: blankPanels, basePanelId: blankPanels[0].id, foldedLines: {} };
+    };
+
+    // Workspace Restore Effect: reopens the most recently saved workspace.
+    useEffect(() => {
+        listWorkspaces()
+            .then(async list => {
+                setWorkspaces(list);
+                const last = list.length > 0 ? await loadWorkspace(list[0].id) : null;
+                if (last) openWorkspace(last);
+            })
+            .catch(error => console.error('Could not open the saved workspaces:', error))
+            .finally(() => setIsWorkspaceRestored(true));
+    }, [openWorkspace]);
+
+    // Workspace Autosave Effect: saves shortly after the last change, and when the page is left.
+    useEffect(() => {
+        if (!isWorkspaceRestored) return;
+        const timer = setTimeout(() => persistWorkspace(currentWorkspace), WORKSPACE_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [currentWorkspace, isWorkspaceRestored, persistWorkspace]);
+
+    useEffect(() => {
+        if (!isWorkspaceRestored) return;
+        const handlePageHide = () => persistWorkspace(currentWorkspaceRef.current);
+        window.addEventListener('pagehide', handlePageHide);
+        return () => window.removeEventListener('pagehide', handlePageHide);
+    }, [isWorkspaceRestored, persistWorkspace]);
+
+    const handleOpenWorkspace = async (id: string) => {
+        if (id === workspaceId) return;
+        await persistWorkspace(currentWorkspace);
+        const workspace = await loadWorkspace(id).catch(error => {
+            console.error('Could not open the workspace:', error);
+            return null;
+        });
+        if (workspace) openWorkspace(workspace);
+    };
+
+    // Each handler finishes saving the open workspace before showing another.
+    const handleNewWorkspace = async () => {
+        const blank = createBlankWorkspace();
+        await persistWorkspace(currentWorkspace);
+        openWorkspace(blank);
+    };
+
+    const handleDuplicateWorkspace = async () => {
+        const copy = { ...currentWorkspace, id: crypto.randomUUID(), name: `${workspaceName || DEFAULT_WORKSPACE_NAME} (copy)` };
+        await persistWorkspace(currentWorkspace);
+        await persistWorkspace(copy);
+        openWorkspace(copy);
+    };
+
+    // Deleting the open workspace moves to the most recent other one, or a blank one.
+    const handleDeleteWorkspace = async (id: string) => {
+        deletedWorkspaceIdsRef.current.add(id);
+        if (id === workspaceId) {
+            const next = workspaces.find(w => w.id !== id);
+            const nextWorkspace = next ? await loadWorkspace(next.id).catch(() => null) : null;
+            openWorkspace(nextWorkspace ?? createBlankWorkspace());
+        }
+        try {
+            await pendingSavesRef.current.get(id);
+            await deleteWorkspace(id);
+            setWorkspaces(prev => prev.filter(w => w.id !== id));
+        } catch (error) {
+            console.error('Could not delete the workspace:', error);
+        }
+    };
+
+    const handleImportWorkspace = async (file: File) => {
+        const workspace = parseWorkspaceFile(await file.text());
+        await persistWorkspace(currentWorkspace);
+        await persistWorkspace(workspace);
+        openWorkspace(workspace);
+    };
+
+    const handleExportWorkspace = () => {
+        downloadTextFile(getWorkspaceFileName(currentWorkspace), serializeWorkspace(currentWorkspace), 'application/json');
+    };
+
     const handleSaveApiKey = (key: string) => {
         // Store API key only in memory for this session; do not persist to localStorage.
         setApiKey(key);
@@ -223,6 +708,25 @@ const App: React.FC = () => {
                 setIsFindVisible(v => !v);
             }
 
+            // Next/Previous Change: F7 / Shift + F7
+            if (e.key === 'F7') {
+                e.preventDefault();
+                handleGoToChange(e.shiftKey ? 'previous' : 'next');
+                return;
+            }
+
+            // Undo/Redo: Cmd/Ctrl + Z / Cmd/Ctrl + Shift + Z, also in the panel editors
+            // (other text fields keep their own undo)
+            if (modKey && e.key.toLowerCase() === 'z' && (!isEditing || target.dataset.panelEditor !== undefined)) {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    handleRedo();
+                } else {
+                    handleUndo();
+                }
+                return;
+            }
+
             // The rest of the shortcuts should not trigger while editing text.
             if (isEditing) return;
 
@@ -249,9 +753,15 @@ const App: React.FC = () => {
         return () => {
             document.removeEventListener('keydown', handleKeyDown);
         };
-    }, [handleAiSummary, addPanel, removeLastPanel, toggleHelpModal]);
+    }, [handleAiSummary, addPanel, removeLastPanel, toggleHelpModal, handleUndo, handleRedo, handleGoToChange]);
 
 
+    // Scrolls a panel so that a line of its text is in view. The panel finds the row the
+    // line is shown on, as folds and collapsed runs move it.
+    const revealLine = (panelIndex: number, line: number) => {
+        setLineReveal(prev => ({ panelId: panels[panelIndex].id, line, id: (prev?.id ?? 0) + 1 }));
+    };
+
     const handleScroll = useCallback((scrolledPanelId: string, scrollTop: number, scrollLeft: number) => {
         if (isSyncingScroll.current) return;
         isSyncingScroll.current = true;
@@ -288,34 +798,66 @@ const App: React.FC = () => {
         });
     };
 
+    // Folds are kept per panel by text line. "Fold unchanged" folds the blocks without changed lines.
+    const handleFoldCommand = useCallback((command: FoldCommand) => {
+        if (command === 'unfold-all') {
+            setFoldedLines(new Map());
+            return;
+        }
+        setFoldedLines(new Map(panels.map((panel, index) => {
+            const ranges = findFoldableRanges(panel.text, panelLanguages[index]);
+            const startLines = command === 'fold-all'
+                ? ranges.map(range => range.startLine)
+                : findUnchangedRanges(ranges, findChangedLines(index, diffResults, comparisonBases));
+            return [panel.id, new Set(startLines)];
+        })));
+    }, [panels, panelLanguages, diffResults, comparisonBases]);
+
     const handleFindNext = () => setActiveMatchIndex(prev => (prev + 1) % matches.length);
     const handleFindPrev = () => setActiveMatchIndex(prev => (prev - 1 + matches.length) % matches.length);
 
+    // What Replace puts in place of a match: the replacement, with capture groups expanded in regex mode.
+    const getMatchReplacement = (match: Match): string | null => {
+        const index = panels.findIndex(p => p.id === match.panelId);
+        const regex = searchRegexes[index];
+        if (index === -1 || !regex) return null;
+        return getReplacement(panels[index].text, match.start, regex, replaceQuery, findOptions.useRegex);
+    };
+
     const handleReplace = () => {
         if (activeMatchIndex === -1 || matches.length === 0) return;
         const match = matches[activeMatchIndex];
         const panel = panels.find(p => p.id === match.panelId);
-        if (!panel) return;
+        const replacement = getMatchReplacement(match);
+        if (!panel || replacement === null) return;
 
-        const newText = panel.text.substring(0, match.start) + replaceQuery + panel.text.substring(match.end);
-        updatePanelText(panel.id, newText);
+        const newText = panel.text.substring(0, match.start) + replacement + panel.text.substring(match.end);
+        recordPanels(`Replace in ${panel.title}`, prev => prev.map(p => (p.id === panel.id ? { ...p, text: newText } : p)));
     };
 
+    // Replaces the matches found, so only those in the find scope.
     const handleReplaceAll = () => {
         if (!findQuery || matches.length === 0) return;
         
         const panelUpdates = new Map<string, string>();
 
         panels.forEach(panel => {
-            const query = findOptions.useRegex ? findQuery : escapeRegExp(findQuery);
-            const regex = new RegExp(query, findOptions.caseSensitive ? 'g' : 'gi');
-            const newText = panel.text.replace(regex, replaceQuery);
+            const parts: string[] = [];
+            let copied = 0;
+            matches.forEach(match => {
+                if (match.panelId !== panel.id) return;
+                const replacement = getMatchReplacement(match);
+                if (replacement === null) return;
+                parts.push(panel.text.substring(copied, match.start), replacement);
+                copied = match.end;
+            });
+            const newText = parts.join('') + panel.text.substring(copied);
             if (newText !== panel.text) {
                 panelUpdates.set(panel.id, newText);
             }
         });
 
-        setPanels(prevPanels => prevPanels.map(p => panelUpdates.has(p.id) ? { ...p, text: panelUpdates.get(p.id)! } : p));
+        recordPanels(`Replace All (${matches.length})`, prevPanels => prevPanels.map(p => panelUpdates.has(p.id) ? { ...p, text: panelUpdates.get(p.id)! } : p));
     };
 
 
@@ -325,6 +867,7 @@ const App: React.FC = () => {
             return `grid grid-cols-1 md:grid-cols-${count} gap-4`;
         }
         if (count === 3) {
+            if (isMergeActive) return 'grid grid-cols-1 md:grid-cols-2 gap-4';
             return threePanelLayout === 'side-by-side' 
                 ? 'grid grid-cols-1 md:grid-cols-3 gap-4' 
                 : 'grid grid-cols-1 md:grid-cols-2 gap-4';
@@ -333,7 +876,7 @@ const App: React.FC = () => {
     };
 
     const getPanelClasses = (index: number): string => {
-        if (panels.length === 3 && threePanelLayout === 'stacked' && index === 2) {
+        if (panels.length === 3 && threePanelLayout === 'stacked' && index === 2 && !isMergeActive) {
             return 'md:col-span-2';
         }
         return '';
@@ -346,10 +889,48 @@ const App: React.FC = () => {
         return result;
     }, [panels, matches]);
 
+    // The line starts of each panel, for placing find results; only needed while the results sidebar is open.
+    const findResultLineStarts = useMemo(() => (
+        isFindResultsVisible ? new Map<string, number[]>(panels.map(panel => [panel.id, getLineStarts(panel.text)])) : null
+    ), [isFindResultsVisible, panels]);
+
+    // The find results sidebar's entry for a match, built when the sidebar lists it.
+    // Null while the matches are behind the panels.
+    const getFindResult = (index: number): FindResult | null => {
+        const match = matches[index];
+        const panel = match && panels.find(p => p.id === match.panelId);
+        const starts = match && findResultLineStarts?.get(match.panelId);
+        if (!panel || !starts || match.end > panel.text.length) return null;
+        const line = getLineAtOffset(starts, match.start);
+        const lineEnd = line + 1 < starts.length ? starts[line + 1] - 1 : panel.text.length;
+        return {
+            panelTitle: panel.title,
+            line: line + 1,
+            lineText: panel.text.substring(starts[line], lineEnd),
+            start: match.start - starts[line],
+            end: Math.min(match.end, lineEnd) - starts[line],
+            replacement: replaceQuery ? getMatchReplacement(match) : null,
+        };
+    };
+
+    const activeMatch = matches[activeMatchIndex];
+    const activeReplacement = activeMatch && replaceQuery ? getMatchReplacement(activeMatch) : null;
+    const activeMatchPanel = activeMatch && panels.find(p => p.id === activeMatch.panelId);
+
 
     return (
         <div className="flex flex-col h-screen max-h-screen p-4 gap-4 bg-[var(--color-bg-primary)] text-[var(--color-text-primary)]">
             <Header
+                workspaces={workspaces}
+                workspaceId={workspaceId}
+                workspaceName={workspaceName}
+                onRenameWorkspace={setWorkspaceName}
+                onOpenWorkspace={handleOpenWorkspace}
+                onNewWorkspace={handleNewWorkspace}
+                onDuplicateWorkspace={handleDuplicateWorkspace}
+                onDeleteWorkspace={handleDeleteWorkspace}
+                onImportWorkspace={handleImportWorkspace}
+                onExportWorkspace={handleExportWorkspace}
                 panelCount={panels.length}
                 onAddPanel={addPanel}
                 onRemovePanel={removeLastPanel}
@@ -358,13 +939,56 @@ const App: React.FC = () => {
                 isSummarizing={isSummarizing}
                 threePanelLayout={threePanelLayout}
                 onToggleLayout={() => setThreePanelLayout(p => p === 'stacked' ? 'side-by-side' : 'stacked')}
+                compareMode={compareMode}
+                onCompareModeChange={setCompareMode}
+                onShowMatrix={() => setIsMatrixVisible(true)}
+                onExport={handleExport}
+                onImportPatch={() => setIsPatchModalVisible(true)}
+                history={history}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJumpToHistory={(index) => setHistory(prev => goToHistoryEntry(prev, index))}
+                viewMode={viewMode}
+                onViewModeChange={setViewMode}
+                structuralMode={structuralMode}
+                onStructuralModeChange={handleStructuralModeChange}
+                isTableMode={isTableMode}
+                hasTables={hasTables}
+                onToggleTableMode={handleToggleTableMode}
+                onFoldCommand={handleFoldCommand}
+                contextLines={contextLines}
+                onContextLinesChange={setContextLines}
+                isMergeMode={isMergeActive}
+                onToggleMergeMode={() => setIsMergeMode(v => !v)}
                 theme={theme}
                 onThemeChange={setTheme}
+                diffOptions={diffOptions}
+                onDiffOptionsChange={setDiffOptions}
+                onEditIgnoreRules={() => setIsIgnoreRulesVisible(true)}
                 onToggleFind={() => setIsFindVisible(v => !v)}
                 onToggleHelp={toggleHelpModal}
             />
             
             {isHelpVisible && <HelpModal onClose={toggleHelpModal} />}
+            {isPatchModalVisible && (
+                <PatchImportModal
+                    panels={panels}
+                    defaultPanelId={panels[basePanelIndex].id}
+                    canAddPanel={panels.length < 4}
+                    onApply={handleApplyPatch}
+                    onClose={() => setIsPatchModalVisible(false)}
+                />
+            )}
+            {isIgnoreRulesVisible && (
+                <IgnoreRulesModal
+                    rules={diffOptions.ignoreRules}
+                    onRulesChange={(ignoreRules) => setDiffOptions(prev => ({ ...prev, ignoreRules }))}
+                    onClose={() => setIsIgnoreRulesVisible(false)}
+                />
+            )}
+            {isMatrixVisible && (
+                <SimilarityMatrixModal panels={panels} options={diffOptions} onClose={() => setIsMatrixVisible(false)} />
+            )}
             {isApiKeyModalVisible && <ApiKeyModal onClose={() => setIsApiKeyModalVisible(false)} onSave={handleSaveApiKey} currentKey={apiKey} />}
 
             {isFindVisible && (
@@ -375,6 +999,13 @@ const App: React.FC = () => {
                     onReplaceQueryChange={setReplaceQuery}
                     options={findOptions}
                     onOptionsChange={setFindOptions}
+                    scope={findScope}
+                    onScopeChange={setFindScope}
+                    replacementPreview={activeReplacement !== null && activeMatchPanel
+                        ? { from: activeMatchPanel.text.substring(activeMatch.start, activeMatch.end), to: activeReplacement }
+                        : null}
+                    isResultsVisible={isFindResultsVisible}
+                    onToggleResults={() => setIsFindResultsVisible(v => !v)}
                     onFindNext={handleFindNext}
                     onFindPrev={handleFindPrev}
                     onReplace={handleReplace}
@@ -385,26 +1016,77 @@ const App: React.FC = () => {
                 />
             )}
 
-            <main className={`flex-1 ${getGridClasses()} min-h-0`}>
-                {panels.map((panel, index) => (
-                    <EditorPanel
-                        key={panel.id}
-                        id={panel.id}
-                        className={getPanelClasses(index)}
-                        title={panel.title}
-                        onTitleChange={(newTitle) => updatePanelTitle(panel.id, newTitle)}
-                        text={panel.text}
-                        onTextChange={(newText) => updatePanelText(panel.id, newText)}
-                        diffResult={diffResults[index] || null}
-                        scrollRef={el => panelScrollRefs.current[index] = el}
-                        onScroll={handleScroll}
-                        matches={panelMatches.get(panel.id) || []}
-                        activeMatch={matches[activeMatchIndex]?.panelId === panel.id ? matches[activeMatchIndex] : undefined}
-                        foldedLines={foldedLines.get(panel.id) || new Set()}
-                        onToggleFold={(line: number) => handleToggleFold(panel.id, line)}
+            <div className="flex-1 flex gap-4 min-h-0">
+                <main className={`flex-1 min-w-0 ${getGridClasses()} min-h-0`}>
+                    {panels.map((panel, index) => tableDiffs[index] ? (
+                        <TableDiffPanel
+                            key={panel.id}
+                            className={getPanelClasses(index)}
+                            title={panel.title}
+                            baseTitle={panels[comparisonBases[index]!].title}
+                            diff={tableDiffs[index]!}
+                            columns={tables[comparisonBases[index]!].table?.columns ?? []}
+                            keyColumns={tableKeyColumns}
+                            onKeyColumnsChange={setTableKeyColumns}
+                        />
+                    ) : (
+                        <EditorPanel
+                            key={panel.id}
+                            id={panel.id}
+                            className={getPanelClasses(index)}
+                            title={panel.title}
+                            onTitleChange={(newTitle) => updatePanelTitle(panel.id, newTitle)}
+                            text={panel.text}
+                            onTextChange={(newText) => updatePanelText(panel.id, newText)}
+                            language={panelLanguages[index]}
+                            isLanguageDetected={!panel.language}
+                            onLanguageChange={(language) => updatePanelLanguage(panel.id, language)}
+                            diffResult={displayDiffs[index] || null}
+                            isComputingDiff={(!structuralDiffs[index] || structuralDiffs[index]!.error !== null) && comparisonBases[index] !== null && diffResults[index] === null}
+                            structuralDiff={structuralDiffs[index]}
+                            onRevealBaseLine={comparisonBases[index] !== null ? (line) => revealLine(comparisonBases[index]!, line) : undefined}
+                            isBase={comparisonBases[index] === null}
+                            baseTitle={comparisonBases[index] !== null ? panels[comparisonBases[index]!].title : undefined}
+                            onSetBase={compareMode === 'base' && !isMergeActive ? () => setBasePanelId(panel.id) : undefined}
+                            scrollRef={el => panelScrollRefs.current[index] = el}
+                            onScroll={handleScroll}
+                            matches={panelMatches.get(panel.id) || []}
+                            activeMatch={matches[activeMatchIndex]?.panelId === panel.id ? matches[activeMatchIndex] : undefined}
+                            foldedLines={foldedLines.get(panel.id) || new Set()}
+                            onToggleFold={(line: number) => handleToggleFold(panel.id, line)}
+                            contextLines={contextLines}
+                            ignoreRules={diffOptions.ignoreRules}
+                            onHunkAction={!structuralDiffs[index] && !splitViews ? (hunk, action) => handleHunkAction(index, hunk, action) : undefined}
+                            navigationRequest={changeNavigation?.panelId === panel.id ? changeNavigation : null}
+                            revealRequest={lineReveal?.panelId === panel.id ? lineReveal : null}
+                            onActivate={() => setActivePanelId(panel.id)}
+                            splitView={splitViews?.[index]}
+                        />
+                    ))}
+                    {isMergeActive && (
+                        <MergeResultPanel
+                            chunks={mergeChunks}
+                            resolutions={mergeResolutions}
+                            onResolve={handleResolveConflict}
+                            onExport={handleExportMerge}
+                            oursTitle={panels[1].title}
+                            theirsTitle={panels[2].title}
+                        />
+                    )}
+                </main>
+                {isFindVisible && isFindResultsVisible && (
+                    <FindResultsSidebar
+                        count={matches.length}
+                        getResult={getFindResult}
+                        activeIndex={activeMatchIndex}
+                        onSelect={setActiveMatchIndex}
+                        onClose={() => setIsFindResultsVisible(false)}
                     />
-                ))}
-            </main>
+                )}
+            </div>
+            {isStatsVisible && (
+                <StatsDrawer summary={simpleSummary} panelStats={panelStats} onClose={() => setIsStatsVisible(false)} />
+            )}
             {(isSummarizing || summary) && (
                 <div className="flex-shrink-0 bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg p-4 max-h-48 overflow-y-auto">
                     <h3 className="text-lg font-semibold mb-2 text-[var(--color-accent)]">Summary of Differences</h3>
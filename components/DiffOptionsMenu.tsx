@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconButton } from './IconButton';
+import { DiffOptions } from '../types';
+
+interface DiffOptionsMenuProps {
+  options: DiffOptions;
+  onOptionsChange: (options: DiffOptions) => void;
+}
+
+type BooleanOption = 'ignoreWhitespace' | 'ignoreCase' | 'ignoreLineEndings' | 'ignoreBlankLines' | 'detectMoves' | 'tokenDiff' | 'ignoreComments';
+
+// `requires` names a toggle that must be on for this one to have an effect.
+const toggles: { key: BooleanOption; label: string; requires?: BooleanOption }[] = [
+  { key: 'ignoreWhitespace', label: 'Ignore whitespace' },
+  { key: 'ignoreCase', label: 'Ignore case' },
+  { key: 'ignoreLineEndings', label: 'Ignore line endings (CRLF)' },
+  { key: 'ignoreBlankLines', label: 'Ignore blank lines' },
+  { key: 'detectMoves', label: 'Detect moved blocks' },
+  { key: 'tokenDiff', label: 'Compare code by syntax tokens' },
+  { key: 'ignoreComments', label: 'Ignore comments', requires: 'tokenDiff' },
+];
+
+export const DiffOptionsMenu: React.FC<DiffOptionsMenuProps> = ({ options, onOptionsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const isNormalizing = options.ignoreWhitespace || options.ignoreCase || options.ignoreLineEndings || options.ignoreBlankLines
+    || (options.tokenDiff && options.ignoreComments);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <IconButton onClick={() => setIsOpen(v => !v)} isActive={isNormalizing} ariaLabel="Comparison options">
+        <OptionsIcon />
+      </IconButton>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-64 p-3 rounded-lg shadow-xl bg-[var(--color-bg-secondary)] border border-[var(--color-border)]">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mb-2">Comparison</h3>
+          <ul className="space-y-2">
+            {toggles.map(({ key, label, requires }) => (
+              <li key={key}>
+                <label className={`flex items-center gap-2 text-sm text-[var(--color-text-secondary)] ${requires && !options[requires] ? 'opacity-50' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={options[key]}
+                    disabled={!!requires && !options[requires]}
+                    onChange={() => onOptionsChange({ ...options, [key]: !options[key] })}
+                    className="accent-[var(--color-accent)]"
+                  />
+                  {label}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mt-4 mb-2">Inline changes</h3>
+          <select
+            value={options.inlineGranularity}
+            onChange={(e) => onOptionsChange({ ...options, inlineGranularity: e.target.value as DiffOptions['inlineGranularity'] })}
+            className="w-full bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] text-sm rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+            aria-label="Inline change granularity"
+          >
+            <option value="word">By word</option>
+            <option value="char">By character</option>
+            <option value="token" disabled={!options.tokenDiff}>By syntax token</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// SVG Icons
+const OptionsIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="4" y1="21" x2="4" y2="14"></line>
+    <line x1="4" y1="10" x2="4" y2="3"></line>
+    <line x1="12" y1="21" x2="12" y2="12"></line>
+    <line x1="12" y1="8" x2="12" y2="3"></line>
+    <line x1="20" y1="21" x2="20" y2="16"></line>
+    <line x1="20" y1="12" x2="20" y2="3"></line>
+    <line x1="1" y1="14" x2="7" y2="14"></line>
+    <line x1="9" y1="8" x2="15" y2="8"></line>
+    <line x1="17" y1="16" x2="23" y2="16"></line>
+  </svg>
+);
@@ -1,6 +1,11 @@
-import React, { useMemo } from 'react';
-import { DiffLine, DiffType, Match, FoldableRange } from '../types';
-import { findFoldableRanges } from '../utils/editor';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChangeNavigationRequest, DiffHunk, DiffLine, DiffType, Match, FoldableRange, HunkAction, IgnoreRule, LineRevealRequest, StructuralChange, StructuralDiff } from '../types';
+import { findFoldableRanges, getLineAtOffset } from '../utils/editor';
+import { findCollapsibleRanges, groupIntoHunks } from '../utils/hunks';
+import { languages, getLanguageDefinition } from '../utils/language';
+import { compileIgnoreRules, findMaskedRanges } from '../utils/masks';
+import { OverviewRuler, RulerMark } from './OverviewRuler';
+import { SplitView } from '../utils/align';
 
 declare const Prism: any;
 
@@ -10,7 +15,16 @@ interface EditorPanelProps {
   onTitleChange: (newTitle: string) => void;
   text: string;
   onTextChange: (newText: string) => void;
+  // The language the panel is highlighted and folded as, and whether it was detected
+  // rather than picked; picking null goes back to detection.
+  language: string;
+  isLanguageDetected: boolean;
+  onLanguageChange: (language: string | null) => void;
   diffResult: DiffLine[] | null;
+  isComputingDiff?: boolean;
+  isBase: boolean;
+  baseTitle?: string;
+  onSetBase?: () => void;
   scrollRef: (element: HTMLDivElement | null) => void;
   onScroll: (id: string, scrollTop: number, scrollLeft: number) => void;
   className?: string;
@@ -18,10 +32,79 @@ interface EditorPanelProps {
   activeMatch?: Match;
   foldedLines: Set<number>;
   onToggleFold: (line: number) => void;
+  // When set, unchanged lines further than this from a change are collapsed.
+  contextLines?: number | null;
+  // Set in structural mode: the changes by path, or why the panel could not be compared.
+  structuralDiff?: StructuralDiff | null;
+  // Scrolls the base panel to a line of its text; used by the structural change list.
+  onRevealBaseLine?: (line: number) => void;
+  // Text matching these rules was masked for the comparison and is shown dimmed.
+  ignoreRules?: IgnoreRule[];
+  // Offers per change block actions to copy it into the base panel or revert it here.
+  onHunkAction?: (hunk: DiffHunk, action: HunkAction) => void;
+  // Set on the panel that keyboard change navigation applies to.
+  navigationRequest?: ChangeNavigationRequest | null;
+  // Set on the panel another panel asked to show a line of, e.g. from the structural change list.
+  revealRequest?: LineRevealRequest | null;
+  // Called when the panel is focused or clicked, making it the one navigation applies to.
+  onActivate?: () => void;
+  // Set in the split view: the panel's lines on rows aligned with the other panels.
+  // Folding and collapsing are off there, and the text is read-only.
+  splitView?: SplitView | null;
 }
 
-const getLineStyle = (type: DiffType): React.CSSProperties => {
-  switch (type) {
+// A rendered row: a diff line, a bar standing in for a collapsed run of unchanged lines,
+// or in the split view a filler row opposite lines other panels have. Filler rows have
+// an empty line and a negative originalIndex, unique per row.
+interface VisibleLine {
+  line: DiffLine;
+  originalIndex: number;
+  collapsedCount?: number;
+  isFiller?: boolean;
+}
+
+const FILLER_LINE: DiffLine = { type: DiffType.Unchanged, text: '' };
+
+const fillerStyle: React.CSSProperties = {
+  backgroundImage: 'repeating-linear-gradient(135deg, var(--color-border) 0 1px, transparent 1px 6px)',
+};
+
+const LINE_HEIGHT = 24; // Corresponds to leading-6
+// Rows rendered above and below the visible ones, so fast scrolling rarely shows blanks.
+const OVERSCAN_ROWS = 30;
+// The top padding of the line layers (p-2).
+const LAYER_PADDING = 8;
+
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Highlighted line HTML by grammar and line text, shared by all panels.
+const highlightCache = new WeakMap<object, Map<string, string>>();
+const MAX_CACHED_LINES = 20000;
+
+const highlightLine = (text: string, grammar: object, language: string): string => {
+  let cache = highlightCache.get(grammar);
+  if (!cache) {
+    cache = new Map();
+    highlightCache.set(grammar, cache);
+  }
+  let html = cache.get(text);
+  if (html === undefined) {
+    html = Prism.highlight(text, grammar, language) as string;
+    if (cache.size >= MAX_CACHED_LINES) cache.delete(cache.keys().next().value!);
+    cache.set(text, html);
+  }
+  return html;
+};
+
+// Stands in for rows that are scrolled out of view.
+const RowSpacer: React.FC<{ rows: number }> = ({ rows }) => (
+  rows > 0 ? <div style={{ height: rows * LINE_HEIGHT }} /> : null
+);
+
+const getLineStyle = (line: DiffLine): React.CSSProperties => {
+  if (line.ignored) return {};
+  if (line.move) return { backgroundColor: 'var(--color-diff-move-bg)' };
+  switch (line.type) {
     case DiffType.Added:
       return { backgroundColor: 'var(--color-diff-add-bg)' };
     case DiffType.Removed:
@@ -31,8 +114,10 @@ const getLineStyle = (type: DiffType): React.CSSProperties => {
   }
 };
 
-const getLineSymbolClass = (type: DiffType): string => {
-  switch (type) {
+const getLineSymbolClass = (line: DiffLine): string => {
+  if (line.ignored) return 'text-[var(--color-text-disabled)]';
+  if (line.move) return 'text-[var(--color-diff-move-text)]';
+  switch (line.type) {
     case DiffType.Added:
       return 'text-[var(--color-diff-add-text)]';
     case DiffType.Removed:
@@ -42,20 +127,26 @@ const getLineSymbolClass = (type: DiffType): string => {
   }
 }
 
-const getLanguageFromTitle = (title: string): string => {
-    const lowerTitle = title.toLowerCase();
-    if (lowerTitle.endsWith('.tsx')) return 'tsx';
-    if (lowerTitle.endsWith('.ts')) return 'typescript';
-    if (lowerTitle.endsWith('.jsx')) return 'jsx';
-    if (lowerTitle.endsWith('.js') || lowerTitle.endsWith('.mjs')) return 'javascript';
-    if (lowerTitle.endsWith('.css')) return 'css';
-    if (lowerTitle.endsWith('.html') || lowerTitle.endsWith('.xml') || lowerTitle.endsWith('.svg')) return 'markup';
-    if (lowerTitle.endsWith('.json')) return 'json';
-    return 'javascript'; // Default language
+const changeKindClass: Record<StructuralChange['kind'], string> = {
+  added: 'text-[var(--color-diff-add-text)]',
+  removed: 'text-[var(--color-diff-remove-text)]',
+  changed: 'text-[var(--color-accent)]',
+};
+
+const changeKindSymbol: Record<StructuralChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+const describeChangeKind = (kind: StructuralChange['kind'], baseTitle?: string): string => {
+  if (kind === 'added') return 'Only in this panel';
+  if (kind === 'removed') return `Only in ${baseTitle ?? 'the base panel'}`;
+  return 'Different values';
 };
 
 const HighlightOverlay: React.FC<{ 
-    visibleLines: { line: DiffLine, originalIndex: number }[],
+    visibleLines: VisibleLine[],
     lineStartOffsets: number[],
     matches: Match[], 
     activeMatch?: Match,
@@ -83,9 +174,9 @@ const HighlightOverlay: React.FC<{
 
     return (
         <>
-            {visibleLines.map(({ line, originalIndex }) => {
+            {visibleLines.map(({ line, originalIndex, collapsedCount }) => {
                 const textLineIndex = diffToTextLineMap.get(originalIndex);
-                if (textLineIndex === undefined) {
+                if (textLineIndex === undefined || collapsedCount !== undefined) {
                     return <div key={originalIndex} className="h-6">&nbsp;</div>;
                 }
 
@@ -133,13 +224,87 @@ const HighlightOverlay: React.FC<{
     );
 };
 
+const getSegmentStyle = (type: DiffType): React.CSSProperties => ({
+    backgroundColor: type === DiffType.Added ? 'var(--color-diff-add-word-bg)' : 'var(--color-diff-remove-word-bg)',
+    borderRadius: '2px',
+});
+
+// Paints the changed parts of paired removed/added lines with a stronger highlight.
+const InlineChangeOverlay: React.FC<{
+    visibleLines: VisibleLine[],
+}> = ({ visibleLines }) => (
+    <>
+        {visibleLines.map(({ line, originalIndex }) => {
+            if (!line.segments || line.segments.length === 0) {
+                return <div key={originalIndex} className="h-6">&nbsp;</div>;
+            }
+
+            const parts: React.ReactNode[] = [];
+            let lastIndexInLine = 0;
+            line.segments.forEach((segment, i) => {
+                if (segment.start > lastIndexInLine) {
+                    parts.push(line.text.substring(lastIndexInLine, segment.start));
+                }
+                parts.push(
+                    <span key={`${originalIndex}-${i}`} style={getSegmentStyle(line.type)}>
+                        {line.text.substring(segment.start, segment.end)}
+                    </span>
+                );
+                lastIndexInLine = segment.end;
+            });
+            if (lastIndexInLine < line.text.length) {
+                parts.push(line.text.substring(lastIndexInLine));
+            }
+
+            return <div key={originalIndex} className="h-6">{parts}</div>;
+        })}
+    </>
+);
+
+// Dims the parts of each line that ignore rules masked out of the comparison.
+const MaskOverlay: React.FC<{
+    visibleLines: VisibleLine[],
+    regexes: RegExp[],
+}> = ({ visibleLines, regexes }) => (
+    <>
+        {visibleLines.map(({ line, originalIndex, collapsedCount }) => {
+            const ranges = collapsedCount === undefined ? findMaskedRanges(line.text, regexes) : [];
+            if (ranges.length === 0) {
+                return <div key={originalIndex} className="h-6">&nbsp;</div>;
+            }
+
+            const parts: React.ReactNode[] = [];
+            let lastIndexInLine = 0;
+            ranges.forEach((range, i) => {
+                parts.push(line.text.substring(lastIndexInLine, range.start));
+                parts.push(
+                    <span key={`${originalIndex}-${i}`} style={{ backgroundColor: 'var(--color-bg-secondary)', opacity: 0.6 }}>
+                        {line.text.substring(range.start, range.end)}
+                    </span>
+                );
+                lastIndexInLine = range.end;
+            });
+            parts.push(line.text.substring(lastIndexInLine));
+
+            return <div key={originalIndex} className="h-6">{parts}</div>;
+        })}
+    </>
+);
+
 export const EditorPanel: React.FC<EditorPanelProps> = ({ 
   id,
   title, 
   onTitleChange, 
   text, 
   onTextChange, 
+  language,
+  isLanguageDetected,
+  onLanguageChange,
   diffResult, 
+  isComputingDiff = false,
+  isBase,
+  baseTitle,
+  onSetBase,
   scrollRef, 
   onScroll,
   className = '',
@@ -147,35 +312,113 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
   activeMatch,
   foldedLines,
   onToggleFold,
+  contextLines = null,
+  structuralDiff = null,
+  onRevealBaseLine,
+  ignoreRules = [],
+  onHunkAction,
+  navigationRequest = null,
+  revealRequest = null,
+  onActivate,
+  splitView = null,
 }) => {
-  const language = getLanguageFromTitle(title);
-  const isBasePanel = !diffResult;
+  const scrollContainerRef = useRef<HTMLDivElement | null>(null);
+  // While a diff is being computed the panel shows its own text without highlighting.
+  const isBasePanel = isBase || !diffResult;
+  // Whether each rendered line is a line of the panel's own text, as in the split view.
+  const showsOwnLines = isBasePanel || !!splitView;
 
-  const foldableRanges = useMemo(() => findFoldableRanges(text), [text]);
+  const foldableRanges = useMemo(() => findFoldableRanges(text, language), [text, language]);
   const foldableRangesByLine = useMemo(() => {
     const map = new Map<number, FoldableRange>();
     foldableRanges.forEach(range => map.set(range.startLine, range));
     return map;
   }, [foldableRanges]);
   
-  const allLines = useMemo(() => diffResult || text.split('\n').map(line => ({ type: DiffType.Unchanged, text: line })), [diffResult, text]);
+  const allLines = useMemo(() => splitView?.lines || diffResult || text.split('\n').map(line => ({ type: DiffType.Unchanged, text: line })), [splitView, diffResult, text]);
   
+  const collapsibleRanges = useMemo(() => {
+    const map = new Map<number, number>();
+    if (!diffResult || contextLines === null) return map;
+    findCollapsibleRanges(diffResult, groupIntoHunks(diffResult, contextLines))
+      .forEach(range => map.set(range.start, range.end));
+    return map;
+  }, [diffResult, contextLines]);
+  // Expanded ranges are kept with the ranges they were expanded in, so they all collapse
+  // again when the diff or the context changes.
+  const [expansion, setExpansion] = useState<{ ranges: Map<number, number>; starts: Set<number> } | null>(null);
+  const expandedRanges = expansion?.ranges === collapsibleRanges ? expansion.starts : null;
+
+  // The change blocks, for navigation and the apply/revert buttons. Blocks of ignored lines
+  // only are left out, as they do not count as changes.
+  const blocks = useMemo(() => {
+    if (!diffResult || isBase) return [];
+    return groupIntoHunks(diffResult, 0).filter(block => diffResult.slice(block.start, block.end).some(line => !line.ignored));
+  }, [diffResult, isBase]);
+
+  // Change blocks by their first diff line, for the apply/revert buttons.
+  const changeBlocks = useMemo(() => {
+    const map = new Map<number, DiffHunk>();
+    if (onHunkAction) blocks.forEach(block => map.set(block.start, block));
+    return map;
+  }, [blocks, onHunkAction]);
+
+  const diffToTextLineMap = useMemo(() => {
+    const map = new Map<number, number>();
+    if (showsOwnLines) {
+        allLines.forEach((_, i) => map.set(i, i));
+    } else {
+        let textLineIndex = 0;
+        allLines.forEach((line, diffLineIndex) => {
+            if (line.type !== DiffType.Removed) {
+                map.set(diffLineIndex, textLineIndex);
+                textLineIndex++;
+            }
+        });
+    }
+    return map;
+  }, [allLines, showsOwnLines]);
+
+  // The diff line showing each line of the text; folds are kept by text line.
+  const textToDiffLine = useMemo(() => {
+    const lines: number[] = [];
+    diffToTextLineMap.forEach((textLine, diffIndex) => (lines[textLine] = diffIndex));
+    return lines;
+  }, [diffToTextLineMap]);
+
   const visibleLines = useMemo(() => {
-    const visible: {line: DiffLine, originalIndex: number}[] = [];
+    if (splitView) {
+      return splitView.rows.map((lineIndex, row): VisibleLine => (
+        lineIndex === null
+          ? { line: FILLER_LINE, originalIndex: -1 - row, isFiller: true }
+          : { line: allLines[lineIndex], originalIndex: lineIndex }
+      ));
+    }
+    const visible: VisibleLine[] = [];
     let i = 0;
     while (i < allLines.length) {
-      const lineIndex = i + 1;
-      visible.push({ line: allLines[i], originalIndex: i });
-      if (foldedLines.has(lineIndex)) {
-        const range = foldableRangesByLine.get(lineIndex);
-        if (range) {
-          i = range.endLine - 1;
-        }
+      const collapsedEnd = collapsibleRanges.get(i);
+      if (collapsedEnd !== undefined && !expandedRanges?.has(i)) {
+        visible.push({ line: allLines[i], originalIndex: i, collapsedCount: collapsedEnd - i });
+        i = collapsedEnd;
+        continue;
       }
-      i++;
+      const textLine = diffToTextLineMap.get(i);
+      visible.push({ line: allLines[i], originalIndex: i });
+      const range = textLine !== undefined && foldedLines.has(textLine + 1) ? foldableRangesByLine.get(textLine + 1) : undefined;
+      // The fold hides everything up to the diff line of its end line, removed lines included.
+      i = range ? (textToDiffLine[range.endLine - 1] ?? allLines.length) : i + 1;
     }
     return visible;
-  }, [allLines, foldedLines, foldableRangesByLine]);
+  }, [splitView, allLines, foldedLines, foldableRangesByLine, collapsibleRanges, expandedRanges, diffToTextLineMap, textToDiffLine]);
+
+  // The split view's editor holds an empty line for each filler row, so that its caret and
+  // selection line up with the rows shown. It is read-only there, so they are never saved.
+  const editorText = useMemo(() => (
+    splitView ? splitView.rows.map(lineIndex => (lineIndex === null ? '' : allLines[lineIndex].text)).join('\n') : text
+  ), [splitView, allLines, text]);
+
+  const expandRange = (start: number) => setExpansion({ ranges: collapsibleRanges, starts: new Set(expandedRanges).add(start) });
 
   const lineNumbers = useMemo(() => {
     const baseNumbers: (number | null)[] = [];
@@ -184,7 +427,7 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
     let currentLineNum = 0;
 
     for (const line of allLines) {
-        if (isBasePanel) {
+        if (showsOwnLines) {
             baseLineNum++;
             baseNumbers.push(baseLineNum);
             currentNumbers.push(null);
@@ -208,23 +451,8 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
         currentNumbers.push(nextCurrentNum);
     }
     return { baseNumbers, currentNumbers };
-  }, [allLines, isBasePanel]);
+  }, [allLines, showsOwnLines]);
   
-  const diffToTextLineMap = useMemo(() => {
-    const map = new Map<number, number>();
-    if (isBasePanel) {
-        allLines.forEach((_, i) => map.set(i, i));
-    } else {
-        let textLineIndex = 0;
-        allLines.forEach((line, diffLineIndex) => {
-            if (line.type !== DiffType.Removed) {
-                map.set(diffLineIndex, textLineIndex);
-                textLineIndex++;
-            }
-        });
-    }
-    return map;
-  }, [allLines, isBasePanel]);
   
   const lineStartOffsets = useMemo(() => {
     const lines = text.split('\n');
@@ -235,20 +463,197 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
     return offsets;
   }, [text]);
 
-  const grammar = useMemo(() => (
-    typeof Prism !== 'undefined' ? Prism.languages[language] : null
-  ), [language]);
+  const maskRegexes = useMemo(() => compileIgnoreRules(ignoreRules), [ignoreRules]);
+
+  // Not memoized: grammars loaded on demand appear after the first render.
+  const grammar = typeof Prism !== 'undefined' ? Prism.languages[language] : null;
+
+  // The visible rows as fractions of all rows, for the overview ruler.
+  const [viewport, setViewport] = useState({ top: 0, height: 1 });
+  const updateViewport = (container: HTMLDivElement) => {
+    const height = Math.max(1, visibleLines.length * LINE_HEIGHT);
+    const top = Math.min(1, container.scrollTop / height);
+    setViewport({ top, height: Math.min(1 - top, container.clientHeight / height) });
+  };
+
+  // Only the rows in view, plus some overscan, are rendered; the rest are spacers.
+  const [renderedRange, setRenderedRange] = useState({ start: 0, end: 2 * OVERSCAN_ROWS });
+  const updateRenderedRange = (container: HTMLDivElement) => {
+    const firstRow = Math.floor((container.scrollTop - LAYER_PADDING) / LINE_HEIGHT);
+    const lastRow = Math.ceil((container.scrollTop + container.clientHeight - LAYER_PADDING) / LINE_HEIGHT);
+    const start = Math.max(0, firstRow - OVERSCAN_ROWS);
+    const end = lastRow + OVERSCAN_ROWS;
+    setRenderedRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  };
+  const renderedLines = visibleLines.slice(renderedRange.start, renderedRange.end);
+  const rowsBefore = Math.min(renderedRange.start, visibleLines.length);
+  const rowsAfter = Math.max(0, visibleLines.length - renderedRange.end);
 
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    updateViewport(e.currentTarget);
+    updateRenderedRange(e.currentTarget);
     onScroll(id, e.currentTarget.scrollTop, e.currentTarget.scrollLeft);
   };
 
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const update = () => {
+      updateViewport(container);
+      updateRenderedRange(container);
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [visibleLines]);
+
+  const setScrollContainer = (element: HTMLDivElement | null) => {
+    scrollContainerRef.current = element;
+    scrollRef(element);
+  };
+
+  // The rendered row showing each diff line, or the closest one before it if the line is folded away.
+  const rowByDiffLine = useMemo(() => {
+    const rows: number[] = new Array(allLines.length);
+    visibleLines.forEach(({ originalIndex }, row) => {
+      if (originalIndex >= 0) rows[originalIndex] = row;
+    });
+    for (let i = 0; i < rows.length; i++) {
+      if (rows[i] === undefined) rows[i] = i > 0 ? rows[i - 1] : 0;
+    }
+    return rows;
+  }, [allLines, visibleLines]);
+  const rowOfDiffLine = (diffIndex: number) => rowByDiffLine[Math.min(diffIndex, rowByDiffLine.length - 1)] ?? 0;
+
+  // Scrolls so the given diff line (or the closest visible line before it, if folded) is in view.
+  const scrollToDiffLine = (diffIndex: number) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    container.scrollTo({ top: rowOfDiffLine(diffIndex) * LINE_HEIGHT - container.clientHeight / 3, behavior: 'smooth' });
+  };
+
+  // The first row of each change. In the split view this includes filler rows, which
+  // stand opposite lines another panel added or removed.
+  const changeRows = useMemo(() => {
+    if (!splitView) return blocks.map(block => rowOfDiffLine(block.start));
+    const isChange = ({ line, isFiller }: VisibleLine) => isFiller || (line.type !== DiffType.Unchanged && !line.ignored);
+    return visibleLines.flatMap((visible, row) => (isChange(visible) && (row === 0 || !isChange(visibleLines[row - 1])) ? [row] : []));
+  }, [splitView, blocks, visibleLines, rowByDiffLine]);
+
+  // The row the last change navigation went to, while the panel has not been scrolled
+  // away from it. Smooth scrolling takes a moment, so quick repeats rely on this.
+  const lastNavigationRef = useRef<{ row: number; top: number; time: number } | null>(null);
+
+  const goToChange = (direction: ChangeNavigationRequest['direction']) => {
+    const container = scrollContainerRef.current;
+    if (!container || changeRows.length === 0) return;
+    const last = lastNavigationRef.current;
+    const isAtLast = last && (Date.now() - last.time < 1000 || Math.abs(container.scrollTop - last.top) < LINE_HEIGHT);
+    const currentRow = isAtLast ? last.row : (container.scrollTop + container.clientHeight / 3) / LINE_HEIGHT;
+    const row = direction === 'next'
+      ? changeRows.find(r => r > currentRow + 0.5)
+      : [...changeRows].reverse().find(r => r < currentRow - 0.5);
+    if (row === undefined) return;
+    const top = Math.max(0, Math.min(row * LINE_HEIGHT - container.clientHeight / 3, container.scrollHeight - container.clientHeight));
+    lastNavigationRef.current = { row, top, time: Date.now() };
+    container.scrollTo({ top, behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    if (navigationRequest) goToChange(navigationRequest.direction);
+  }, [navigationRequest]);
+
+  useEffect(() => {
+    if (revealRequest) scrollToDiffLine(textToDiffLine[revealRequest.line] ?? 0);
+  }, [revealRequest]);
+
+  // Scrolls the active find match into view, by the row its line is rendered on.
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!activeMatch || !container) return;
+    const diffIndex = textToDiffLine[getLineAtOffset(lineStartOffsets, activeMatch.start)];
+    if (diffIndex === undefined) return;
+    const top = rowOfDiffLine(diffIndex) * LINE_HEIGHT;
+    if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - LINE_HEIGHT * 2) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeMatch]);
+
+  const rulerMarks = useMemo(() => {
+    const marks: RulerMark[] = [];
+    const addMark = (kind: RulerMark['kind'], row: number) => {
+      const last = marks[marks.length - 1];
+      if (last && last.kind === kind && last.end === row) last.end = row + 1;
+      else marks.push({ kind, start: row, end: row + 1 });
+    };
+    if (!isBasePanel || splitView) {
+      visibleLines.forEach(({ line, collapsedCount }, row) => {
+        if (collapsedCount !== undefined || line.ignored || line.type === DiffType.Unchanged) return;
+        addMark(line.move ? 'moved' : line.type === DiffType.Added ? 'added' : 'removed', row);
+      });
+    }
+    if (matches.length > 0) {
+      const matchRows = new Set<number>();
+      for (const match of matches) {
+        const diffIndex = textToDiffLine[getLineAtOffset(lineStartOffsets, match.start)];
+        if (diffIndex !== undefined) matchRows.add(rowOfDiffLine(diffIndex));
+      }
+      [...matchRows].sort((a, b) => a - b).forEach(row => addMark('match', row));
+    }
+    return marks;
+  }, [visibleLines, isBasePanel, splitView, matches, textToDiffLine, lineStartOffsets, rowByDiffLine]);
+
+  const seekTo = (fraction: number) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    container.scrollTo({ top: fraction * visibleLines.length * LINE_HEIGHT - container.clientHeight / 2, behavior: 'smooth' });
+  };
+
+  const renderMoveLink = (line: DiffLine, originalIndex: number) => {
+    const move = line.move!;
+    const isSource = move.role === 'source';
+    const counterpartNum = isSource
+      ? lineNumbers.currentNumbers[move.counterpart]
+      : lineNumbers.baseNumbers[move.counterpart];
+    const label = isSource ? `Moved to line ${counterpartNum}` : `Moved from base line ${counterpartNum}`;
+    return (
+      <button
+        key={originalIndex}
+        onClick={() => scrollToDiffLine(move.counterpart)}
+        className="w-full text-center text-[var(--color-diff-move-text)] hover:text-[var(--color-text-primary)]"
+        title={`${label} (click to jump)`}
+        aria-label={label}
+      >
+        {isSource ? '↧' : '↥'}
+      </button>
+    );
+  };
+
   const renderGutter = () => {
-    return visibleLines.map(({line, originalIndex}) => {
-      const lineNum = originalIndex + 1;
-      const isFoldable = foldableRangesByLine.has(lineNum);
+    return renderedLines.map(({line, originalIndex, collapsedCount, isFiller}) => {
+      if (isFiller) {
+        return <div key={originalIndex} className="h-6" />;
+      }
+      if (collapsedCount !== undefined) {
+        return (
+          <div key={originalIndex} className="relative h-6 select-none">
+            <button
+              onClick={() => expandRange(originalIndex)}
+              className="absolute left-0 whitespace-nowrap px-2 text-xs text-[var(--color-text-muted)] hover:text-[var(--color-accent)]"
+              title="Show unchanged lines"
+            >
+              ⋯ {collapsedCount} unchanged lines
+            </button>
+          </div>
+        );
+      }
+      const textLine = diffToTextLineMap.get(originalIndex);
+      const lineNum = textLine === undefined ? 0 : textLine + 1;
+      const isFoldable = !splitView && foldableRangesByLine.has(lineNum);
       const isFolded = foldedLines.has(lineNum);
       const symbol = line.type === DiffType.Added ? '+' : line.type === DiffType.Removed ? '-' : ' ';
+      const isMoveStart = !splitView && !!line.move && allLines[originalIndex - 1]?.move?.id !== line.move.id;
       
       const baseNum = lineNumbers.baseNumbers[originalIndex];
       const currentNum = lineNumbers.currentNumbers[originalIndex];
@@ -256,8 +661,34 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
       const range = foldableRangesByLine.get(lineNum);
       const foldedLineCount = range ? range.endLine - range.startLine - 1 : 0;
 
+      const block = changeBlocks.get(originalIndex);
+
       return (
         <div key={originalIndex} className="flex h-6 text-right text-[var(--color-text-muted)] select-none">
+          {changeBlocks.size > 0 && (
+            <div className="w-10 mr-1 flex items-center">
+              {block && onHunkAction && (
+                <>
+                  <button
+                    onClick={() => onHunkAction(block, 'apply')}
+                    className="w-5 text-center hover:text-[var(--color-accent)]"
+                    title={`Apply this change to ${baseTitle ?? 'the base panel'}`}
+                    aria-label="Apply change to base"
+                  >
+                    ⇤
+                  </button>
+                  <button
+                    onClick={() => onHunkAction(block, 'revert')}
+                    className="w-5 text-center hover:text-[var(--color-accent)]"
+                    title="Revert this change in this panel"
+                    aria-label="Revert change"
+                  >
+                    ↺
+                  </button>
+                </>
+              )}
+            </div>
+          )}
           <div className="w-5 mr-2">
             {isFoldable ? (
               <button onClick={() => onToggleFold(lineNum)} className="w-full text-center hover:text-[var(--color-text-primary)]">
@@ -265,9 +696,11 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
               </button>
             ) : ' '}
           </div>
-          <span className="w-8">{isBasePanel ? baseNum : (baseNum ?? '')}</span>
-          <span className="w-8 ml-2">{isBasePanel ? '' : (currentNum ?? '')}</span>
-          <span className={`w-4 ml-2 text-center ${isBasePanel ? 'text-transparent' : getLineSymbolClass(line.type)}`}>{isBasePanel ? ' ' : symbol}</span>
+          <span className="w-8">{showsOwnLines ? baseNum : (baseNum ?? '')}</span>
+          <span className="w-8 ml-2">{showsOwnLines ? '' : (currentNum ?? '')}</span>
+          <span className={`w-4 ml-2 text-center ${isBasePanel && !splitView ? 'text-transparent' : getLineSymbolClass(line)}`}>
+            {isBasePanel && !splitView ? ' ' : isMoveStart ? renderMoveLink(line, originalIndex) : symbol}
+          </span>
            {isFolded && (
              <div className="absolute left-5 right-0 mt-6 -ml-px">
                 <div className="inline-block border rounded-full px-2 text-xs bg-[var(--color-bg-tertiary)] border-[var(--color-border)] cursor-pointer" onClick={() => onToggleFold(lineNum)}>... {foldedLineCount} lines</div>
@@ -279,8 +712,12 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
   }
 
   return (
-    <div className={`relative flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg overflow-hidden h-full min-h-0 ${className}`}>
-      <div className="bg-[var(--color-bg-tertiary)] px-4 py-2 text-[var(--color-text-primary)] flex-shrink-0 border-b border-[var(--color-border)]">
+    <div
+      className={`relative flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg overflow-hidden h-full min-h-0 ${className}`}
+      onFocus={onActivate}
+      onMouseDown={onActivate}
+    >
+      <div className="bg-[var(--color-bg-tertiary)] px-4 py-2 text-[var(--color-text-primary)] flex-shrink-0 border-b border-[var(--color-border)] flex items-center gap-2">
         <input
             type="text"
             value={title}
@@ -288,21 +725,85 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
             className="bg-transparent font-semibold text-[var(--color-text-primary)] w-full border-none outline-none focus:ring-1 focus:ring-[var(--color-accent)] rounded-sm px-1 -mx-1"
             aria-label="Panel Title"
         />
+        <select
+          value={isLanguageDetected ? '' : language}
+          onChange={(e) => onLanguageChange(e.target.value || null)}
+          className="flex-shrink-0 bg-[var(--color-bg-secondary)] text-xs text-[var(--color-text-muted)] rounded-md px-1 py-0.5 outline-none focus:ring-1 focus:ring-[var(--color-accent)]"
+          aria-label="Language"
+          title="Language for highlighting, folding and whole-word find"
+        >
+          <option value="">Auto ({getLanguageDefinition(language)?.label ?? language})</option>
+          {languages.map(l => (
+            <option key={l.id} value={l.id}>{l.label}</option>
+          ))}
+        </select>
+        {isBase && (
+          <span className="flex-shrink-0 px-2 py-0.5 text-xs font-semibold rounded-full bg-[var(--color-accent-bg)] text-white">Base</span>
+        )}
+        {!isBase && baseTitle !== undefined && (
+          <span className="flex-shrink-0 max-w-[10rem] truncate text-xs text-[var(--color-text-muted)]" title={`Compared with ${baseTitle}`}>vs. {baseTitle}</span>
+        )}
+        {!isBase && onSetBase && (
+          <button
+            onClick={onSetBase}
+            className="flex-shrink-0 px-2 py-0.5 text-xs rounded-md bg-[var(--color-bg-secondary)] text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]"
+          >
+            Set as base
+          </button>
+        )}
+        {changeRows.length > 0 && (
+          <div className="flex flex-shrink-0 items-center">
+            <button
+              onClick={() => goToChange('previous')}
+              className="px-1.5 rounded-md text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]"
+              title="Previous change (Shift+F7)"
+              aria-label="Previous change"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => goToChange('next')}
+              className="px-1.5 rounded-md text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]"
+              title="Next change (F7)"
+              aria-label="Next change"
+            >
+              ↓
+            </button>
+          </div>
+        )}
+        {isComputingDiff && (
+          <div className="flex items-center gap-2 flex-shrink-0 text-xs text-[var(--color-text-muted)]" role="status">
+            <div className="w-3 h-3 border-2 border-t-transparent border-[var(--color-accent)] rounded-full animate-spin"></div>
+            <span>computing diff…</span>
+          </div>
+        )}
       </div>
+      {structuralDiff?.error && (
+        <div className="flex-shrink-0 px-4 py-2 text-xs text-[var(--color-diff-remove-text)] bg-[var(--color-diff-remove-bg)] border-b border-[var(--color-border)]" role="alert">
+          {structuralDiff.error}{!isBase && ' The line diff is shown instead.'}
+        </div>
+      )}
+      <div className="flex-1 min-h-0 flex">
       <div 
-        ref={scrollRef}
+        ref={setScrollContainer}
         onScroll={handleScroll}
-        className="flex-1 overflow-auto code-font text-sm leading-6"
+        className="flex-1 min-w-0 overflow-auto code-font text-sm leading-6"
       >
         <div className="relative grid grid-cols-[auto_1fr]">
           <div className="col-start-1 row-start-1 sticky left-0 z-30 p-2 pr-4 bg-[var(--color-bg-secondary)]">
+            <RowSpacer rows={rowsBefore} />
             {renderGutter()}
+            <RowSpacer rows={rowsAfter} />
           </div>
 
           <div className="col-start-2 row-start-1 grid">
             <textarea
-              value={text}
+              value={editorText}
               onChange={(e) => onTextChange(e.target.value)}
+              readOnly={!!splitView}
+              // Marks the editor whose Ctrl+Z goes to the app's history instead of the browser's.
+              data-panel-editor
+              title={splitView ? 'Switch to the inline view to edit' : undefined}
               spellCheck="false"
               className="col-start-1 row-start-1 z-20 p-2 pb-24 bg-transparent text-transparent caret-[var(--color-caret)] resize-none border-none outline-none whitespace-pre"
               wrap="off"
@@ -312,40 +813,110 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
               className="col-start-1 row-start-1 p-2 pb-24 whitespace-pre pointer-events-none"
               aria-hidden="true"
             >
-              {visibleLines.map(({ line, originalIndex }) => {
-                 let lineHtml: string;
-                 if (line.type === DiffType.Removed) {
-                   lineHtml = line.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-                 } else if (grammar) {
-                   lineHtml = Prism.highlight(line.text, grammar, language);
-                 } else {
-                   lineHtml = line.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+              <RowSpacer rows={rowsBefore} />
+              {renderedLines.map(({ line, originalIndex, collapsedCount, isFiller }) => {
+                 if (isFiller) {
+                   return <div key={originalIndex} className="h-6 -mx-2" style={fillerStyle} />;
                  }
+                 if (collapsedCount !== undefined) {
+                   return <div key={originalIndex} className="h-6 -mx-2 bg-[var(--color-bg-tertiary)] opacity-50" />;
+                 }
+                 const lineHtml = grammar && (line.type !== DiffType.Removed || splitView)
+                   ? highlightLine(line.text, grammar, language)
+                   : escapeHtml(line.text);
 
                 return (
-                  <div key={originalIndex} style={getLineStyle(line.type)} className="h-6">
+                  <div key={originalIndex} style={getLineStyle(line)} className="h-6">
                     <span dangerouslySetInnerHTML={{ __html: lineHtml || '&nbsp;' }} />
                   </div>
                 );
               })}
+              <RowSpacer rows={rowsAfter} />
             </div>
             
+            {(!isBasePanel || splitView) && (
+              <div
+                className="col-start-1 row-start-1 p-2 pb-24 whitespace-pre pointer-events-none text-transparent"
+                aria-hidden="true"
+              >
+                <RowSpacer rows={rowsBefore} />
+                <InlineChangeOverlay visibleLines={renderedLines} />
+                <RowSpacer rows={rowsAfter} />
+              </div>
+            )}
+
+            {maskRegexes.length > 0 && (
+              <div
+                className="col-start-1 row-start-1 p-2 pb-24 whitespace-pre pointer-events-none text-transparent"
+                aria-hidden="true"
+              >
+                <RowSpacer rows={rowsBefore} />
+                <MaskOverlay visibleLines={renderedLines} regexes={maskRegexes} />
+                <RowSpacer rows={rowsAfter} />
+              </div>
+            )}
+
             <div
               className="col-start-1 row-start-1 z-10 p-2 pb-24 whitespace-pre pointer-events-none text-transparent"
               aria-hidden="true"
             >
+              <RowSpacer rows={rowsBefore} />
               <HighlightOverlay 
-                visibleLines={visibleLines}
+                visibleLines={renderedLines}
                 lineStartOffsets={lineStartOffsets}
                 matches={matches} 
                 activeMatch={activeMatch} 
                 diffToTextLineMap={diffToTextLineMap}
               />
+              <RowSpacer rows={rowsAfter} />
             </div>
 
           </div>
         </div>
       </div>
+      <OverviewRuler marks={rulerMarks} rowCount={visibleLines.length} viewport={viewport} onSeek={seekTo} />
+      </div>
+      {structuralDiff && !structuralDiff.error && !isBase && (
+        <div className="flex-shrink-0 max-h-40 overflow-y-auto border-t border-[var(--color-border)] bg-[var(--color-bg-tertiary)] px-4 py-2 text-xs">
+          <h3 className="font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mb-1">
+            {structuralDiff.changes.length === 0 ? 'No structural changes' : `${structuralDiff.changes.length} structural ${structuralDiff.changes.length === 1 ? 'change' : 'changes'}`}
+          </h3>
+          <ul className="code-font space-y-0.5">
+            {structuralDiff.changes.map((change, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <button
+                  onClick={() => scrollToDiffLine(textToDiffLine[change.startLine] ?? 0)}
+                  className="flex-1 min-w-0 text-left truncate hover:bg-[var(--color-bg-tertiary-hover)] rounded px-1"
+                  title={describeChangeKind(change.kind, baseTitle)}
+                >
+                  <span className={`inline-block w-3 ${changeKindClass[change.kind]}`}>{changeKindSymbol[change.kind]}</span>
+                  <span className="text-[var(--color-text-primary)]">{change.path}</span>
+                  <span className="text-[var(--color-text-muted)]">: </span>
+                  {change.oldValue !== undefined && <span className="text-[var(--color-diff-remove-text)]">{change.oldValue}</span>}
+                  {change.oldValue !== undefined && change.newValue !== undefined && <span className="text-[var(--color-text-muted)]"> → </span>}
+                  {change.newValue !== undefined && <span className="text-[var(--color-diff-add-text)]">{change.newValue}</span>}
+                </button>
+                <button
+                  onClick={() => scrollToDiffLine(textToDiffLine[change.startLine] ?? 0)}
+                  className="flex-shrink-0 text-[var(--color-text-muted)] hover:text-[var(--color-accent)]"
+                  title="Show in this panel"
+                >
+                  L{change.startLine + 1}
+                </button>
+                {onRevealBaseLine && (
+                  <button
+                    onClick={() => onRevealBaseLine(change.baseStartLine)}
+                    className="flex-shrink-0 text-[var(--color-text-muted)] hover:text-[var(--color-accent)]"
+                    title={`Show in ${baseTitle ?? 'the base panel'}`}
+                  >
+                    base L{change.baseStartLine + 1}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconButton } from './IconButton';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const formats: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'patch', label: 'Unified patch', description: 'A .patch file for git apply or patch' },
+  { format: 'json', label: 'JSON', description: 'Hunks and statistics for other tools' },
+  { format: 'html', label: 'HTML report', description: 'A standalone page in the current theme' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <IconButton onClick={() => setIsOpen(v => !v)} disabled={disabled} ariaLabel="Export diff">
+        <ExportIcon />
+      </IconButton>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-64 p-2 rounded-lg shadow-xl bg-[var(--color-bg-secondary)] border border-[var(--color-border)]">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] px-2 py-1">Export as</h3>
+          <ul>
+            {formats.map(({ format, label, description }) => (
+              <li key={format}>
+                <button
+                  onClick={() => {
+                    onExport(format);
+                    setIsOpen(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-tertiary)]"
+                >
+                  <span className="block text-sm font-semibold text-[var(--color-text-primary)]">{label}</span>
+                  <span className="block text-xs text-[var(--color-text-muted)]">{description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// SVG Icons
+const ExportIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+    <polyline points="7 10 12 15 17 10"></polyline>
+    <line x1="12" y1="15" x2="12" y2="3"></line>
+  </svg>
+);
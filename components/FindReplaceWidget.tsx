@@ -1,6 +1,13 @@
 import React from 'react';
 import { IconButton } from './IconButton';
-import { FindOptions } from '../types';
+import { FindOptions, FindScope } from '../types';
+
+const FIND_SCOPES: { id: FindScope; label: string }[] = [
+    { id: 'all', label: 'All panels' },
+    { id: 'panel', label: 'Current panel' },
+    { id: 'changed', label: 'Changed lines' },
+    { id: 'unchanged', label: 'Unchanged lines' },
+];
 
 interface FindReplaceWidgetProps {
     findQuery: string;
@@ -9,6 +16,12 @@ interface FindReplaceWidgetProps {
     onReplaceQueryChange: (query: string) => void;
     options: FindOptions;
     onOptionsChange: (options: FindOptions) => void;
+    scope: FindScope;
+    onScopeChange: (scope: FindScope) => void;
+    // The active match and what Replace turns it into, or null when there is nothing to preview.
+    replacementPreview: { from: string; to: string } | null;
+    isResultsVisible: boolean;
+    onToggleResults: () => void;
     onFindNext: () => void;
     onFindPrev: () => void;
     onReplace: () => void;
@@ -25,6 +38,11 @@ export const FindReplaceWidget: React.FC<FindReplaceWidgetProps> = ({
     onReplaceQueryChange,
     options,
     onOptionsChange,
+    scope,
+    onScopeChange,
+    replacementPreview,
+    isResultsVisible,
+    onToggleResults,
     onFindNext,
     onFindPrev,
     onReplace,
@@ -80,8 +98,23 @@ export const FindReplaceWidget: React.FC<FindReplaceWidgetProps> = ({
                         Replace All
                     </button>
                 </div>
+                {replacementPreview && (
+                    <div className="code-font text-xs text-[var(--color-text-muted)] truncate">
+                        <del className="rounded-sm bg-[var(--color-diff-remove-bg)] text-[var(--color-diff-remove-text)]">{replacementPreview.from}</del>
+                        {' → '}
+                        <ins className="no-underline rounded-sm bg-[var(--color-diff-add-bg)] text-[var(--color-diff-add-text)]">{replacementPreview.to}</ins>
+                    </div>
+                )}
             </div>
             <div className="flex items-center gap-2">
+                <select
+                    value={scope}
+                    onChange={(e) => onScopeChange(e.target.value as FindScope)}
+                    aria-label="Search in"
+                    className="bg-[var(--color-bg-tertiary)] px-2 py-1.5 rounded-md text-sm outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                >
+                    {FIND_SCOPES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                </select>
                 <IconButton 
                     onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })} 
                     isActive={options.caseSensitive}
@@ -95,6 +128,16 @@ export const FindReplaceWidget: React.FC<FindReplaceWidgetProps> = ({
                     ariaLabel="Toggle Regex"
                 >
                     <RegexIcon />
+                </IconButton>
+                <IconButton
+                    onClick={() => onOptionsChange({ ...options, wholeWord: !options.wholeWord })}
+                    isActive={!!options.wholeWord}
+                    ariaLabel="Toggle Whole Word"
+                >
+                    <WholeWordIcon />
+                </IconButton>
+                <IconButton onClick={onToggleResults} isActive={isResultsVisible} ariaLabel="Toggle results list">
+                    <ListIcon />
                 </IconButton>
                  <IconButton onClick={onClose} ariaLabel="Close find and replace">
                     <CloseIcon />
@@ -137,3 +180,21 @@ const RegexIcon: React.FC = () => (
         <path d="M3 5v14"/>
     </svg>
 );
+const WholeWordIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M7 15l2-6 2 6"/>
+        <path d="M7.7 13h2.6"/>
+        <path d="M14 9v6h1.5a1.5 1.5 0 0 0 0-3H14"/>
+        <path d="M3 17v2h18v-2"/>
+    </svg>
+);
+const ListIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M8 6h13"/>
+        <path d="M8 12h13"/>
+        <path d="M8 18h13"/>
+        <path d="M3 6h.01"/>
+        <path d="M3 12h.01"/>
+        <path d="M3 18h.01"/>
+    </svg>
+);
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+
+// One find match as listed in the results sidebar.
+export interface FindResult {
+    panelTitle: string;
+    // 1-based line the match starts on.
+    line: number;
+    lineText: string;
+    // The match within `lineText`, cut off at the end of the line.
+    start: number;
+    end: number;
+    // What Replace puts in place of the match, or null when there is nothing to preview.
+    replacement: string | null;
+}
+
+interface FindResultsSidebarProps {
+    count: number;
+    // Builds the entry of one match; called only for the entries listed. Null while the
+    // matches are behind the panels.
+    getResult: (index: number) => FindResult | null;
+    activeIndex: number;
+    onSelect: (index: number) => void;
+    onClose: () => void;
+}
+
+// Only this many results are listed; the rest are counted.
+const MAX_LISTED_RESULTS = 1000;
+// Characters of a line kept before the match.
+const CONTEXT_LENGTH = 40;
+
+export const FindResultsSidebar: React.FC<FindResultsSidebarProps> = ({ count, getResult, activeIndex, onSelect, onClose }) => {
+    const activeItemRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    return (
+        <aside className="w-80 flex-shrink-0 flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg min-h-0">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-[var(--color-border)]">
+                <h3 className="font-semibold text-[var(--color-accent)]">Results</h3>
+                <span className="flex-1 text-sm text-[var(--color-text-muted)]">{count}</span>
+                <button onClick={onClose} aria-label="Close find results" className="p-1 rounded-full text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors">
+                    <CloseIcon />
+                </button>
+            </div>
+            <ul className="flex-1 overflow-y-auto min-h-0 py-1">
+                {Array.from({ length: Math.min(count, MAX_LISTED_RESULTS) }, (_, index) => {
+                    const result = getResult(index);
+                    if (!result) return null;
+                    const contextStart = Math.max(0, result.start - CONTEXT_LENGTH);
+                    const before = (contextStart > 0 ? '…' : '') + result.lineText.slice(contextStart, result.start).trimStart();
+                    const isActive = index === activeIndex;
+                    return (
+                        <li key={index}>
+                            <button
+                                ref={isActive ? activeItemRef : undefined}
+                                onClick={() => onSelect(index)}
+                                className={`w-full text-left px-3 py-1.5 ${isActive ? 'bg-[var(--color-bg-tertiary)]' : 'hover:bg-[var(--color-bg-tertiary)]'}`}
+                            >
+                                <div className="flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
+                                    <span className="flex-1 truncate">{result.panelTitle}</span>
+                                    <span>Ln {result.line}</span>
+                                </div>
+                                <div className="code-font text-xs whitespace-pre overflow-hidden text-ellipsis text-[var(--color-text-secondary)]">
+                                    {before}
+                                    {result.replacement === null ? (
+                                        <span className="rounded-sm bg-[var(--color-find-match-bg)]">{result.lineText.slice(result.start, result.end)}</span>
+                                    ) : (
+                                        <>
+                                            <del className="rounded-sm bg-[var(--color-diff-remove-bg)]">{result.lineText.slice(result.start, result.end)}</del>
+                                            <ins className="no-underline rounded-sm bg-[var(--color-diff-add-bg)]">{result.replacement}</ins>
+                                        </>
+                                    )}
+                                    {result.lineText.slice(result.end)}
+                                </div>
+                            </button>
+                        </li>
+                    );
+                })}
+                {count > MAX_LISTED_RESULTS && (
+                    <li className="px-3 py-1.5 text-xs text-[var(--color-text-muted)]">
+                        {count - MAX_LISTED_RESULTS} more not listed
+                    </li>
+                )}
+                {count === 0 && (
+                    <li className="px-3 py-1.5 text-sm text-[var(--color-text-muted)]">No results</li>
+                )}
+            </ul>
+        </aside>
+    );
+};
+
+
+// SVG Icons
+const CloseIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
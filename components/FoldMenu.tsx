@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconButton } from './IconButton';
+import { FoldCommand } from '../types';
+
+interface FoldMenuProps {
+  onFoldCommand: (command: FoldCommand) => void;
+  disabled?: boolean;
+}
+
+const commands: { command: FoldCommand; label: string; description: string }[] = [
+  { command: 'fold-all', label: 'Fold all', description: 'Fold every block in every panel' },
+  { command: 'fold-unchanged', label: 'Fold unchanged', description: 'Fold the blocks that contain no changes' },
+  { command: 'unfold-all', label: 'Unfold all', description: 'Show every line again' },
+];
+
+export const FoldMenu: React.FC<FoldMenuProps> = ({ onFoldCommand, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <IconButton onClick={() => setIsOpen(v => !v)} disabled={disabled} ariaLabel="Fold or unfold code blocks">
+        <FoldIcon />
+      </IconButton>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-64 p-2 rounded-lg shadow-xl bg-[var(--color-bg-secondary)] border border-[var(--color-border)]">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] px-2 py-1">Folding</h3>
+          <ul>
+            {commands.map(({ command, label, description }) => (
+              <li key={command}>
+                <button
+                  onClick={() => {
+                    onFoldCommand(command);
+                    setIsOpen(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-tertiary)]"
+                >
+                  <span className="block text-sm font-semibold text-[var(--color-text-primary)]">{label}</span>
+                  <span className="block text-xs text-[var(--color-text-muted)]">{description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// SVG Icons
+const FoldIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="7 4 12 9 17 4"></polyline>
+    <polyline points="7 20 12 15 17 20"></polyline>
+    <line x1="3" y1="12" x2="21" y2="12"></line>
+  </svg>
+);
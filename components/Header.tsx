@@ -1,9 +1,28 @@
 
 import React from 'react';
 import { IconButton } from './IconButton';
-import { ThreePanelLayout, EditorTheme } from '../types';
+import { DiffOptionsMenu } from './DiffOptionsMenu';
+import { ExportMenu } from './ExportMenu';
+import { FoldMenu } from './FoldMenu';
+import { HistoryMenu } from './HistoryMenu';
+import { WorkspaceMenu } from './WorkspaceMenu';
+import { ThreePanelLayout, EditorTheme, DiffOptions, DiffAlgorithm, CompareMode, DiffViewMode, ExportFormat, FoldCommand, StructuralMode, WorkspaceSummary } from '../types';
+import { diffAlgorithms } from '../utils/diffAlgorithms';
+import { DEFAULT_CONTEXT_LINES } from '../utils/hunks';
+import { structuredFormats } from '../utils/structuredFormats';
+import { PanelHistory } from '../utils/history';
 
 interface HeaderProps {
+  workspaces: WorkspaceSummary[];
+  workspaceId: string;
+  workspaceName: string;
+  onRenameWorkspace: (name: string) => void;
+  onOpenWorkspace: (id: string) => void;
+  onNewWorkspace: () => void;
+  onDuplicateWorkspace: () => void;
+  onDeleteWorkspace: (id: string) => void;
+  onImportWorkspace: (file: File) => Promise<void>;
+  onExportWorkspace: () => void;
   panelCount: number;
   onAddPanel: () => void;
   onRemovePanel: () => void;
@@ -12,13 +31,48 @@ interface HeaderProps {
   isSummarizing: boolean;
   threePanelLayout: ThreePanelLayout;
   onToggleLayout: () => void;
+  compareMode: CompareMode;
+  onCompareModeChange: (mode: CompareMode) => void;
+  onShowMatrix: () => void;
+  onExport: (format: ExportFormat) => void;
+  onImportPatch: () => void;
+  history: PanelHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToHistory: (index: number) => void;
+  viewMode: DiffViewMode;
+  onViewModeChange: (mode: DiffViewMode) => void;
+  structuralMode: StructuralMode;
+  onStructuralModeChange: (mode: StructuralMode) => void;
+  isTableMode: boolean;
+  // Whether every panel looks like a CSV/TSV table, so that table mode is offered.
+  hasTables: boolean;
+  onToggleTableMode: () => void;
+  onFoldCommand: (command: FoldCommand) => void;
+  contextLines: number | null;
+  onContextLinesChange: (contextLines: number | null) => void;
+  isMergeMode: boolean;
+  onToggleMergeMode: () => void;
   theme: EditorTheme;
   onThemeChange: (theme: EditorTheme) => void;
+  diffOptions: DiffOptions;
+  onDiffOptionsChange: (options: DiffOptions) => void;
+  onEditIgnoreRules: () => void;
   onToggleFind: () => void;
   onToggleHelp: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
+  workspaces,
+  workspaceId,
+  workspaceName,
+  onRenameWorkspace,
+  onOpenWorkspace,
+  onNewWorkspace,
+  onDuplicateWorkspace,
+  onDeleteWorkspace,
+  onImportWorkspace,
+  onExportWorkspace,
   panelCount, 
   onAddPanel, 
   onRemovePanel, 
@@ -27,16 +81,54 @@ export const Header: React.FC<HeaderProps> = ({
   isSummarizing,
   threePanelLayout,
   onToggleLayout,
+  compareMode,
+  onCompareModeChange,
+  onShowMatrix,
+  onExport,
+  onImportPatch,
+  history,
+  onUndo,
+  onRedo,
+  onJumpToHistory,
+  viewMode,
+  onViewModeChange,
+  structuralMode,
+  onStructuralModeChange,
+  isTableMode,
+  hasTables,
+  onToggleTableMode,
+  onFoldCommand,
+  contextLines,
+  onContextLinesChange,
+  isMergeMode,
+  onToggleMergeMode,
   theme,
   onThemeChange,
+  diffOptions,
+  onDiffOptionsChange,
+  onEditIgnoreRules,
   onToggleFind,
   onToggleHelp
 }) => {
   return (
     <header className="flex-shrink-0 flex items-center justify-between bg-[var(--color-bg-secondary)] p-3 rounded-lg border border-[var(--color-border)]">
-      <h1 className="text-xl font-bold text-[var(--color-text-primary)]">
-        CodeDiff <span className="text-[var(--color-accent)]">Pro</span>
-      </h1>
+      <div className="flex items-center gap-4">
+        <h1 className="text-xl font-bold text-[var(--color-text-primary)]">
+          CodeDiff <span className="text-[var(--color-accent)]">Pro</span>
+        </h1>
+        <WorkspaceMenu
+          workspaces={workspaces}
+          currentId={workspaceId}
+          name={workspaceName}
+          onRename={onRenameWorkspace}
+          onOpen={onOpenWorkspace}
+          onNew={onNewWorkspace}
+          onDuplicate={onDuplicateWorkspace}
+          onDelete={onDeleteWorkspace}
+          onImport={onImportWorkspace}
+          onExport={onExportWorkspace}
+        />
+      </div>
       <div className="flex items-center gap-4">
         <IconButton onClick={onToggleFind} ariaLabel="Find and Replace (Ctrl+F)">
           <FindIcon />
@@ -45,6 +137,54 @@ export const Header: React.FC<HeaderProps> = ({
         <IconButton onClick={onToggleHelp} ariaLabel="Help and keyboard shortcuts (?)">
           <HelpIcon />
         </IconButton>
+
+        <select
+          value={diffOptions.algorithm}
+          onChange={(e) => onDiffOptionsChange({ ...diffOptions, algorithm: e.target.value as DiffAlgorithm })}
+          className="appearance-none bg-[var(--color-bg-tertiary)] text-[var(--color-text-muted)] font-semibold text-sm rounded-md py-2 px-3 cursor-pointer hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[var(--color-bg-secondary)] focus:ring-[var(--color-accent)]"
+          aria-label="Select diff algorithm"
+          title={diffAlgorithms[diffOptions.algorithm].description}
+        >
+          {Object.values(diffAlgorithms).map(algorithm => (
+            <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+          ))}
+        </select>
+
+        <DiffOptionsMenu options={diffOptions} onOptionsChange={onDiffOptionsChange} />
+        <IconButton
+          onClick={onEditIgnoreRules}
+          isActive={diffOptions.ignoreRules.some(rule => rule.enabled && rule.pattern)}
+          ariaLabel="Ignore rules (mask timestamps, IDs and other text before comparing)"
+        >
+          <MaskIcon />
+        </IconButton>
+        <div className="flex items-center gap-1">
+          <IconButton
+            onClick={() => onStructuralModeChange(structuralMode === 'off' ? 'auto' : 'off')}
+            isActive={structuralMode !== 'off'}
+            ariaLabel="Compare JSON, YAML, INI and .env structurally (ignores key order and formatting)"
+          >
+            <BracesIcon />
+          </IconButton>
+          {structuralMode !== 'off' && (
+            <select
+              value={structuralMode}
+              onChange={(e) => onStructuralModeChange(e.target.value as StructuralMode)}
+              className="bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] text-sm rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+              aria-label="Structured format"
+            >
+              <option value="auto">Auto (by title)</option>
+              {Object.values(structuredFormats).map(format => (
+                <option key={format.id} value={format.id}>{format.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        {(hasTables || isTableMode) && (
+          <IconButton onClick={onToggleTableMode} isActive={isTableMode} ariaLabel="Compare CSV and TSV as tables (rows matched by key columns)">
+            <TableIcon />
+          </IconButton>
+        )}
         
         <div className="relative">
           <select
@@ -64,12 +204,74 @@ export const Header: React.FC<HeaderProps> = ({
 
         <div className="w-px h-6 bg-[var(--color-border)]"></div>
 
+        {!isMergeMode && (
+          <select
+            value={compareMode}
+            onChange={(e) => onCompareModeChange(e.target.value as CompareMode)}
+            className="appearance-none bg-[var(--color-bg-tertiary)] text-[var(--color-text-muted)] font-semibold text-sm rounded-md py-2 px-3 cursor-pointer hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[var(--color-bg-secondary)] focus:ring-[var(--color-accent)]"
+            aria-label="Select comparison mode"
+          >
+            <option value="base">Against base</option>
+            <option value="chain">Adjacent chain</option>
+          </select>
+        )}
+        <IconButton onClick={onShowMatrix} disabled={panelCount < 2} ariaLabel="Pairwise similarity matrix">
+          <MatrixIcon />
+        </IconButton>
+        <ExportMenu onExport={onExport} disabled={panelCount < 2} />
+        <IconButton onClick={onImportPatch} ariaLabel="Apply a patch file">
+          <PatchIcon />
+        </IconButton>
+        <IconButton onClick={onUndo} disabled={history.index === 0} ariaLabel="Undo (Ctrl+Z)">
+          <UndoIcon />
+        </IconButton>
+        <IconButton onClick={onRedo} disabled={history.index === history.entries.length - 1} ariaLabel="Redo (Ctrl+Shift+Z)">
+          <RedoIcon />
+        </IconButton>
+        <HistoryMenu history={history} onJump={onJumpToHistory} />
+        <IconButton
+          onClick={() => onViewModeChange(viewMode === 'split' ? 'inline' : 'split')}
+          isActive={viewMode === 'split'}
+          disabled={structuralMode !== 'off'}
+          ariaLabel="Side-by-side view (panels aligned row by row, read-only)"
+        >
+          <SplitIcon />
+        </IconButton>
+        <FoldMenu onFoldCommand={onFoldCommand} disabled={viewMode === 'split'} />
+        <div className="flex items-center gap-1">
+          <IconButton
+            onClick={() => onContextLinesChange(contextLines === null ? DEFAULT_CONTEXT_LINES : null)}
+            isActive={contextLines !== null}
+            disabled={viewMode === 'split'}
+            ariaLabel="Collapse unchanged lines"
+          >
+            <CollapseIcon />
+          </IconButton>
+          {contextLines !== null && (
+            <input
+              type="number"
+              min={0}
+              max={99}
+              value={contextLines}
+              onChange={(e) => onContextLinesChange(Math.max(0, Math.min(99, Number(e.target.value) || 0)))}
+              className="w-12 bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] text-sm rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+              aria-label="Context lines around changes"
+              title="Context lines around changes"
+            />
+          )}
+        </div>
+
         <div className="flex items-center gap-2">
             {panelCount === 3 && (
                 <>
-                    <IconButton onClick={onToggleLayout} ariaLabel="Toggle 3-panel layout">
-                        {threePanelLayout === 'stacked' ? <SideBySideLayoutIcon /> : <StackedLayoutIcon />}
+                    <IconButton onClick={onToggleMergeMode} isActive={isMergeMode} ariaLabel="Toggle three-way merge (base, ours, theirs)">
+                        <MergeIcon />
                     </IconButton>
+                    {!isMergeMode && (
+                        <IconButton onClick={onToggleLayout} ariaLabel="Toggle 3-panel layout">
+                            {threePanelLayout === 'stacked' ? <SideBySideLayoutIcon /> : <StackedLayoutIcon />}
+                        </IconButton>
+                    )}
                     <div className="w-px h-6 bg-[var(--color-border)]"></div>
                 </>
             )}
@@ -151,6 +353,87 @@ const SparklesIcon: React.FC = () => (
     </svg>
 );
 
+const SplitIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="4" width="18" height="16" rx="2"></rect>
+        <line x1="12" y1="4" x2="12" y2="20"></line>
+        <line x1="6" y1="9" x2="9" y2="9"></line>
+        <line x1="15" y1="13" x2="18" y2="13"></line>
+    </svg>
+);
+
+const CollapseIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="4 14 10 14 10 20"></polyline>
+        <polyline points="20 10 14 10 14 4"></polyline>
+        <line x1="14" y1="10" x2="21" y2="3"></line>
+        <line x1="3" y1="21" x2="10" y2="14"></line>
+    </svg>
+);
+
+const MatrixIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="7" height="7"></rect>
+        <rect x="14" y="3" width="7" height="7"></rect>
+        <rect x="14" y="14" width="7" height="7"></rect>
+        <rect x="3" y="14" width="7" height="7"></rect>
+    </svg>
+);
+
+const MergeIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="18" cy="18" r="3"></circle>
+        <circle cx="6" cy="6" r="3"></circle>
+        <path d="M6 21V9a9 9 0 0 0 9 9"></path>
+    </svg>
+);
+
+const BracesIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M8 3H7a2 2 0 0 0-2 2v5a2 2 0 0 1-2 2 2 2 0 0 1 2 2v5a2 2 0 0 0 2 2h1"></path>
+        <path d="M16 21h1a2 2 0 0 0 2-2v-5a2 2 0 0 1 2-2 2 2 0 0 1-2-2V5a2 2 0 0 0-2-2h-1"></path>
+    </svg>
+);
+
+const MaskIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
+        <line x1="1" y1="1" x2="23" y2="23"></line>
+    </svg>
+);
+
+const TableIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect>
+        <line x1="3" y1="9" x2="21" y2="9"></line>
+        <line x1="3" y1="15" x2="21" y2="15"></line>
+        <line x1="9" y1="9" x2="9" y2="21"></line>
+    </svg>
+);
+
+const UndoIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="1 4 1 10 7 10"></polyline>
+        <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>
+    </svg>
+);
+
+const RedoIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="23 4 23 10 17 10"></polyline>
+        <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path>
+    </svg>
+);
+
+const PatchIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+        <polyline points="14 2 14 8 20 8"></polyline>
+        <line x1="12" y1="18" x2="12" y2="12"></line>
+        <line x1="9" y1="15" x2="15" y2="15"></line>
+    </svg>
+);
+
 const StackedLayoutIcon: React.FC = () => (
     <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
         <rect x="1" y="1" width="6" height="6" rx="1" stroke="currentColor" strokeWidth="1.5"/>
@@ -12,6 +12,10 @@ const shortcuts: Shortcut[] = [
   { keys: ['⌘ ⇧ S'], description: 'Trigger AI Summary' },
   { keys: ['⌘ ⌥ N'], description: 'Add a new panel' },
   { keys: ['⌘ ⌥ W'], description: 'Remove the last panel' },
+  { keys: ['⌘ Z'], description: 'Undo the last edit, rename, replace, or added or removed panel' },
+  { keys: ['⌘ ⇧ Z'], description: 'Redo' },
+  { keys: ['F7'], description: 'Go to the next change in the current panel' },
+  { keys: ['⇧ F7'], description: 'Go to the previous change in the current panel' },
 ];
 
 const Kbd: React.FC<{ children: React.ReactNode }> = ({ children }) => (
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconButton } from './IconButton';
+import { PanelHistory } from '../utils/history';
+
+interface HistoryMenuProps {
+  history: PanelHistory;
+  onJump: (index: number) => void;
+}
+
+export const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <IconButton onClick={() => setIsOpen(v => !v)} disabled={history.entries.length < 2} ariaLabel="Edit history">
+        <HistoryIcon />
+      </IconButton>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-72 p-2 rounded-lg shadow-xl bg-[var(--color-bg-secondary)] border border-[var(--color-border)]">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] px-2 py-1">History</h3>
+          {/* Newest first; states after the current one are what Redo goes to. */}
+          <ul className="max-h-80 overflow-y-auto">
+            {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+              <li key={index}>
+                <button
+                  onClick={() => {
+                    onJump(index);
+                    setIsOpen(false);
+                  }}
+                  className={`w-full flex items-center gap-2 text-left px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-tertiary)] ${index === history.index ? 'bg-[var(--color-bg-tertiary)]' : ''}`}
+                >
+                  <span className={`flex-1 truncate text-sm ${index > history.index ? 'text-[var(--color-text-disabled)]' : 'text-[var(--color-text-primary)]'} ${index === history.index ? 'font-semibold' : ''}`}>
+                    {entry.label}
+                  </span>
+                  <span className="text-xs text-[var(--color-text-muted)]">{new Date(entry.time).toLocaleTimeString()}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// SVG Icons
+const HistoryIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path>
+    <polyline points="3 3 3 8 8 8"></polyline>
+    <polyline points="12 7 12 12 15 15"></polyline>
+  </svg>
+);
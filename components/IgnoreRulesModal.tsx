@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { IgnorePreset, IgnoreRule } from '../types';
+import { createSearchRegExp } from '../utils/regex';
+import { BUILT_IN_PRESETS, loadIgnorePresets, saveIgnorePresets } from '../utils/ignorePresets';
+
+interface IgnoreRulesModalProps {
+  rules: IgnoreRule[];
+  onRulesChange: (rules: IgnoreRule[]) => void;
+  onClose: () => void;
+}
+
+const newRule = (): IgnoreRule => ({
+  id: crypto.randomUUID(),
+  pattern: '',
+  useRegex: true,
+  caseSensitive: false,
+  enabled: true,
+});
+
+// Rules are copied with fresh ids, so a preset can be loaded more than once.
+const copyRules = (rules: IgnoreRule[]) => rules.map(rule => ({ ...rule, id: crypto.randomUUID() }));
+
+export const IgnoreRulesModal: React.FC<IgnoreRulesModalProps> = ({ rules, onRulesChange, onClose }) => {
+  const [savedPresets, setSavedPresets] = useState<IgnorePreset[]>(loadIgnorePresets);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const presets = [
+    ...BUILT_IN_PRESETS.filter(builtIn => !savedPresets.some(saved => saved.name === builtIn.name)),
+    ...savedPresets,
+  ];
+
+  const updateRule = (id: string, changes: Partial<IgnoreRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const updatePresets = (next: IgnorePreset[]) => {
+    setSavedPresets(next);
+    saveIgnorePresets(next);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    updatePresets([...savedPresets.filter(preset => preset.name !== name), { name, rules }]);
+    setPresetName('');
+  };
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) onRulesChange([...rules, ...copyRules(preset.rules)]);
+  };
+
+  const inputClass = 'bg-[var(--color-bg-tertiary)] px-2 py-1 rounded-md text-sm outline-none focus:ring-2 focus:ring-[var(--color-accent)]';
+  const buttonClass = 'px-3 py-1 text-sm rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)] disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="ignore-rules-modal-title"
+    >
+      <div
+        className="bg-[var(--color-bg-secondary)] rounded-lg shadow-xl w-full max-w-2xl p-6 border border-[var(--color-border)] max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="ignore-rules-modal-title" className="text-xl font-bold text-[var(--color-text-primary)]">Ignore Rules</h2>
+          <button onClick={onClose} aria-label="Close" className="p-1 rounded-full text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+          Text matching a rule is masked before the panels are compared, so lines that differ only there count as unchanged. Masked text is dimmed in the panels.
+        </p>
+
+        <ul className="space-y-2 overflow-y-auto min-h-0 mb-3">
+          {rules.length === 0 && <li className="text-sm text-[var(--color-text-muted)]">No rules yet.</li>}
+          {rules.map(rule => {
+            const isInvalid = rule.pattern !== '' && !createSearchRegExp(rule.pattern, rule);
+            return (
+              <li key={rule.id} className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  className="accent-[var(--color-accent)]"
+                  aria-label="Rule enabled"
+                />
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  placeholder={rule.useRegex ? 'Regular expression' : 'Text'}
+                  className={`flex-1 code-font ${inputClass} ${isInvalid ? 'ring-2 ring-[var(--color-diff-remove-text)]' : ''}`}
+                  aria-invalid={isInvalid}
+                  title={isInvalid ? 'Not a valid regular expression; this rule is skipped' : undefined}
+                />
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="checkbox" checked={rule.useRegex} onChange={() => updateRule(rule.id, { useRegex: !rule.useRegex })} className="accent-[var(--color-accent)]" />
+                  .*
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="checkbox" checked={rule.caseSensitive} onChange={() => updateRule(rule.id, { caseSensitive: !rule.caseSensitive })} className="accent-[var(--color-accent)]" />
+                  Aa
+                </label>
+                <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className={buttonClass} aria-label="Remove rule">
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex items-center gap-2 mb-6">
+          <button onClick={() => onRulesChange([...rules, newRule()])} className={buttonClass}>Add rule</button>
+          <button onClick={() => onRulesChange([])} disabled={rules.length === 0} className={buttonClass}>Clear all</button>
+        </div>
+
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mb-2">Presets</h3>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {presets.map(preset => (
+            <span key={preset.name} className="flex items-center rounded-md bg-[var(--color-bg-tertiary)] text-sm">
+              <button
+                onClick={() => handleLoadPreset(preset.name)}
+                className="px-2 py-1 rounded-md text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]"
+                title={`Add the ${preset.rules.length} ${preset.rules.length === 1 ? 'rule' : 'rules'} of this preset`}
+              >
+                {preset.name}
+              </button>
+              {savedPresets.includes(preset) && (
+                <button
+                  onClick={() => updatePresets(savedPresets.filter(p => p !== preset))}
+                  className="px-1 text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]"
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  ✕
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Preset name"
+            className={`flex-1 ${inputClass}`}
+          />
+          <button onClick={handleSavePreset} disabled={!presetName.trim() || rules.length === 0} className={buttonClass}>
+            Save current rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ConflictResolution, MergeChunk } from '../types';
+import { resolveConflict } from '../utils/merge';
+
+interface MergeResultPanelProps {
+  chunks: MergeChunk[] | null;
+  resolutions: Map<string, ConflictResolution>;
+  onResolve: (key: string, resolution: ConflictResolution | null) => void;
+  onExport: () => void;
+  oursTitle: string;
+  theirsTitle: string;
+  className?: string;
+}
+
+const getSourceStyle = (source: 'ours' | 'theirs' | 'both'): React.CSSProperties => ({
+  backgroundColor: source === 'theirs' ? 'var(--color-diff-move-bg)' : 'var(--color-diff-add-bg)',
+});
+
+const CodeLines: React.FC<{ lines: string[]; style?: React.CSSProperties }> = ({ lines, style }) => (
+  <>
+    {lines.map((line, i) => (
+      <div key={i} className="h-6 px-2 whitespace-pre" style={style}>{line || ' '}</div>
+    ))}
+  </>
+);
+
+export const MergeResultPanel: React.FC<MergeResultPanelProps> = ({
+  chunks,
+  resolutions,
+  onResolve,
+  onExport,
+  oursTitle,
+  theirsTitle,
+  className = '',
+}) => {
+  const conflicts = chunks?.filter(c => c.kind === 'conflict') ?? [];
+  const unresolvedCount = conflicts.filter(c => !resolutions.has(c.key)).length;
+
+  const renderConflict = (chunk: Extract<MergeChunk, { kind: 'conflict' }>, index: number) => {
+    const resolution = resolutions.get(chunk.key);
+    const buttonClass = (active: boolean) => `px-2 py-0.5 text-xs font-semibold rounded-md transition-colors ${
+      active
+        ? 'bg-[var(--color-accent-bg)] text-white hover:bg-[var(--color-accent-bg-hover)]'
+        : 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]'
+    }`;
+
+    return (
+      <div key={index} className="my-1 border-y border-[var(--color-diff-remove-text)]">
+        <div className="flex items-center gap-2 px-2 py-1 font-sans text-xs bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] sticky left-0">
+          <span className="font-semibold text-[var(--color-diff-remove-text)]">Conflict {conflicts.indexOf(chunk) + 1}</span>
+          <span className="flex-1"></span>
+          <button onClick={() => onResolve(chunk.key, 'ours')} className={buttonClass(resolution === 'ours')}>Take ours</button>
+          <button onClick={() => onResolve(chunk.key, 'theirs')} className={buttonClass(resolution === 'theirs')}>Take theirs</button>
+          <button onClick={() => onResolve(chunk.key, 'both')} className={buttonClass(resolution === 'both')}>Take both</button>
+          {resolution && (
+            <button onClick={() => onResolve(chunk.key, null)} className={buttonClass(false)}>Reset</button>
+          )}
+        </div>
+        {resolution ? (
+          <CodeLines lines={resolveConflict(chunk, resolution)} style={getSourceStyle(resolution)} />
+        ) : (
+          <>
+            <div className="px-2 font-sans text-xs text-[var(--color-text-muted)]">{oursTitle} (ours)</div>
+            <CodeLines lines={chunk.ours} style={{ backgroundColor: 'var(--color-diff-add-bg)' }} />
+            <div className="px-2 font-sans text-xs text-[var(--color-text-muted)]">{theirsTitle} (theirs)</div>
+            <CodeLines lines={chunk.theirs} style={{ backgroundColor: 'var(--color-diff-move-bg)' }} />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`relative flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg overflow-hidden h-full min-h-0 ${className}`}>
+      <div className="bg-[var(--color-bg-tertiary)] px-4 py-2 flex-shrink-0 border-b border-[var(--color-border)] flex items-center gap-3">
+        <span className="font-semibold text-[var(--color-text-primary)] flex-1">Merged Result</span>
+        {chunks && (
+          <span className={`text-xs ${unresolvedCount > 0 ? 'text-[var(--color-diff-remove-text)]' : 'text-[var(--color-text-muted)]'}`}>
+            {conflicts.length === 0
+              ? 'No conflicts'
+              : `${unresolvedCount} of ${conflicts.length} conflicts unresolved`}
+          </span>
+        )}
+        <button
+          onClick={onExport}
+          disabled={!chunks}
+          className="px-3 py-1 text-sm rounded-md bg-[var(--color-bg-secondary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto code-font text-sm leading-6 py-2">
+        {!chunks ? (
+          <div className="flex items-center gap-2 px-4 text-[var(--color-text-muted)] font-sans">
+            <div className="w-4 h-4 border-2 border-t-transparent border-[var(--color-accent)] rounded-full animate-spin"></div>
+            <span>Merging...</span>
+          </div>
+        ) : (
+          chunks.map((chunk, index) => {
+            switch (chunk.kind) {
+              case 'stable':
+                return <CodeLines key={index} lines={chunk.lines} />;
+              case 'resolved':
+                return <CodeLines key={index} lines={chunk.lines} style={getSourceStyle(chunk.source)} />;
+              case 'conflict':
+                return renderConflict(chunk, index);
+            }
+          })
+        )}
+      </div>
+    </div>
+  );
+};
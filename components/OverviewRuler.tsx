@@ -0,0 +1,61 @@
+import React from 'react';
+
+export type RulerMarkKind = 'added' | 'removed' | 'moved' | 'match';
+
+// A run of rendered rows, [start, end), to mark on the ruler.
+export interface RulerMark {
+  kind: RulerMarkKind;
+  start: number;
+  end: number;
+}
+
+interface OverviewRulerProps {
+  marks: RulerMark[];
+  rowCount: number;
+  // The visible part of the panel, as fractions of its scroll height.
+  viewport: { top: number; height: number };
+  // Called with the clicked position as a fraction of the ruler's height.
+  onSeek: (fraction: number) => void;
+}
+
+const markColors: Record<RulerMarkKind, string> = {
+  added: 'var(--color-diff-add-text)',
+  removed: 'var(--color-diff-remove-text)',
+  moved: 'var(--color-diff-move-text)',
+  match: 'var(--color-find-active-match-bg)',
+};
+
+/**
+ * A strip beside a panel's scrollbar showing where its changes and find matches are
+ * in the whole file. Clicking it scrolls the panel there.
+ */
+export const OverviewRuler: React.FC<OverviewRulerProps> = ({ marks, rowCount, viewport, onSeek }) => {
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)));
+  };
+
+  return (
+    <div
+      className="relative flex-shrink-0 w-3 cursor-pointer bg-[var(--color-bg-tertiary)] border-l border-[var(--color-border)]"
+      onMouseDown={handleMouseDown}
+      aria-hidden="true"
+    >
+      <div
+        className="absolute inset-x-0 bg-[var(--color-text-muted)] opacity-20 pointer-events-none"
+        style={{ top: `${viewport.top * 100}%`, height: `${viewport.height * 100}%` }}
+      />
+      {rowCount > 0 && marks.map((mark, i) => (
+        <div
+          key={i}
+          className={`absolute pointer-events-none ${mark.kind === 'match' ? 'right-0 w-1/2' : 'left-0 w-1/2'}`}
+          style={{
+            top: `${(mark.start / rowCount) * 100}%`,
+            height: `max(2px, ${((mark.end - mark.start) / rowCount) * 100}%)`,
+            backgroundColor: markColors[mark.kind],
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FilePatch, HunkApplyResult, PanelData } from '../types';
+import { applyPatch, parsePatch } from '../utils/patch';
+
+interface PatchImportModalProps {
+  panels: PanelData[];
+  defaultPanelId: string;
+  canAddPanel: boolean;
+  onApply: (sourcePanelId: string, title: string, text: string) => void;
+  onClose: () => void;
+}
+
+const fileName = (path: string) => path.split('/').pop() ?? path;
+
+const describePatch = (patch: FilePatch) => {
+  if (patch.oldPath === '/dev/null') return `${patch.newPath} (new file)`;
+  if (patch.newPath === '/dev/null') return `${patch.oldPath} (deleted)`;
+  return patch.newPath || patch.oldPath || 'Unnamed file';
+};
+
+const describeResult = (result: HunkApplyResult) => {
+  if (!result.applied) return 'failed to apply';
+  const notes: string[] = [];
+  if (result.offset !== 0) notes.push(`at offset ${result.offset > 0 ? '+' : ''}${result.offset}`);
+  if (result.fuzz > 0) notes.push(`with fuzz ${result.fuzz}`);
+  return ['applied', ...notes].join(' ');
+};
+
+export const PatchImportModal: React.FC<PatchImportModalProps> = ({ panels, defaultPanelId, canAddPanel, onApply, onClose }) => {
+  const [patchText, setPatchText] = useState('');
+  const [fileIndex, setFileIndex] = useState(0);
+  const [targetId, setTargetId] = useState(defaultPanelId);
+  const [results, setResults] = useState<HunkApplyResult[] | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const parsed = useMemo<{ patches: FilePatch[]; error: string | null }>(() => {
+    if (!patchText.trim()) return { patches: [], error: null };
+    try {
+      return { patches: parsePatch(patchText), error: null };
+    } catch (error) {
+      return { patches: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [patchText]);
+
+  const patch = parsed.patches[fileIndex] ?? null;
+
+  // Pick the panel whose title names the patched file, if there is one. This only runs
+  // for a new patch, so the panel added by applying it does not reset the report.
+  useEffect(() => {
+    setResults(null);
+    if (!patch) return;
+    const name = fileName(patch.oldPath);
+    const match = panels.find(p => p.title === patch.oldPath || fileName(p.title) === name);
+    if (match) setTargetId(match.id);
+  }, [patch]);
+
+  const handleFile = async (file: File) => {
+    setPatchText(await file.text());
+    setFileIndex(0);
+  };
+
+  const handleApply = () => {
+    const target = panels.find(p => p.id === targetId);
+    if (!patch || !target) return;
+    const { text, results: hunkResults } = applyPatch(target.text, patch);
+    setResults(hunkResults);
+    if (hunkResults.some(r => r.applied)) {
+      const path = patch.newPath !== '/dev/null' ? patch.newPath : patch.oldPath;
+      onApply(target.id, path || `${target.title} (patched)`, text);
+    }
+  };
+
+  const failed = results?.filter(r => !r.applied) ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="patch-modal-title"
+    >
+      <div
+        className="bg-[var(--color-bg-secondary)] rounded-lg shadow-xl w-full max-w-2xl p-6 border border-[var(--color-border)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="patch-modal-title" className="text-xl font-bold text-[var(--color-text-primary)]">Apply Patch</h2>
+          <button onClick={onClose} aria-label="Close" className="p-1 rounded-full text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+          Paste a unified diff or open a <code>.patch</code> file. The patched result opens in a new panel, compared against the panel it was applied to.
+        </p>
+        <textarea
+          value={patchText}
+          onChange={(e) => {
+            setPatchText(e.target.value);
+            setFileIndex(0);
+          }}
+          placeholder={'--- a/file.js\n+++ b/file.js\n@@ -1,3 +1,3 @@'}
+          spellCheck="false"
+          className="w-full h-48 bg-[var(--color-bg-tertiary)] px-3 py-2 rounded-md text-sm font-mono outline-none focus:ring-2 focus:ring-[var(--color-accent)] resize-none"
+          aria-label="Patch text"
+        />
+        <div className="flex items-center gap-4 mt-3 text-sm text-[var(--color-text-secondary)]">
+          <label className="px-3 py-1.5 rounded-md bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-bg-tertiary-hover)] cursor-pointer">
+            Open file…
+            <input
+              type="file"
+              accept=".patch,.diff,text/x-diff,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {parsed.patches.length > 1 && (
+            <select
+              value={fileIndex}
+              onChange={(e) => setFileIndex(Number(e.target.value))}
+              className="bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+              aria-label="File in patch"
+            >
+              {parsed.patches.map((p, i) => (
+                <option key={i} value={i}>{describePatch(p)}</option>
+              ))}
+            </select>
+          )}
+          <span>Apply to</span>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+            aria-label="Panel to apply the patch to"
+          >
+            {panels.map(p => (
+              <option key={p.id} value={p.id}>{p.title}</option>
+            ))}
+          </select>
+        </div>
+
+        {parsed.error && <p className="mt-3 text-sm text-[var(--color-diff-remove-text)]">{parsed.error}</p>}
+        {patch && !results && (
+          <p className="mt-3 text-sm text-[var(--color-text-muted)]">
+            {describePatch(patch)}: {patch.hunks.length} hunk{patch.hunks.length === 1 ? '' : 's'}
+          </p>
+        )}
+        {results && (
+          <ul className="mt-3 max-h-40 overflow-y-auto text-sm space-y-1">
+            {results.map(r => (
+              <li key={r.hunk} className={r.applied ? 'text-[var(--color-text-secondary)]' : 'text-[var(--color-diff-remove-text)]'}>
+                Hunk #{r.hunk} (lines {r.oldStart}–{r.oldEnd}) {describeResult(r)}
+              </li>
+            ))}
+          </ul>
+        )}
+        {results && failed.length === results.length && (
+          <p className="mt-2 text-sm text-[var(--color-diff-remove-text)]">No hunk could be applied, so no panel was created.</p>
+        )}
+        {!canAddPanel && !results && (
+          <p className="mt-3 text-sm text-[var(--color-text-muted)]">All four panels are in use; remove one to open the patched result.</p>
+        )}
+
+        <div className="flex justify-end gap-4 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md text-[var(--color-text-primary)] bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-bg-tertiary-hover)]">
+            {results ? 'Close' : 'Cancel'}
+          </button>
+          {!results && (
+            <button
+              onClick={handleApply}
+              disabled={!patch || !canAddPanel}
+              className="px-4 py-2 text-sm font-semibold text-white rounded-md bg-[var(--color-accent-bg)] hover:bg-[var(--color-accent-bg-hover)] disabled:bg-[var(--color-bg-tertiary)] disabled:text-[var(--color-text-disabled)] disabled:cursor-not-allowed"
+            >
+              Apply Patch
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
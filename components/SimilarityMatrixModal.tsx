@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { DiffOptions, PanelData } from '../types';
+import { calculateDiff } from '../utils/diff';
+import { getDiffTokens } from '../utils/codeTokens';
+import { calculateDiffInWorker, shouldDiffInWorker } from '../services/diffWorker';
+import { countDiffLines, DiffCounts, similarityPercent } from '../utils/stats';
+
+interface SimilarityMatrixModalProps {
+  panels: PanelData[];
+  options: DiffOptions;
+  onClose: () => void;
+}
+
+const pairKey = (from: number, to: number) => `${from}:${to}`;
+
+// How many pairs are diffed in workers at the same time.
+const MAX_CONCURRENT_WORKERS = 2;
+
+export const SimilarityMatrixModal: React.FC<SimilarityMatrixModalProps> = ({ panels, options, onClose }) => {
+  const [counts, setCounts] = useState<Map<string, DiffCounts>>(new Map());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Small pairs are diffed right away; large ones are queued for a few workers at a time
+  // and fill in as they finish.
+  useEffect(() => {
+    const controller = new AbortController();
+    const initial = new Map<string, DiffCounts>();
+    const queue: Array<() => Promise<void>> = [];
+    panels.forEach((from, i) => panels.forEach((to, j) => {
+      if (i === j) return;
+      if (!shouldDiffInWorker(from.text, to.text)) {
+        initial.set(pairKey(i, j), countDiffLines(calculateDiff(from.text, to.text, options, getDiffTokens(from, to, options))));
+        return;
+      }
+      queue.push(() => calculateDiffInWorker(from.text, to.text, options, controller.signal, getDiffTokens(from, to, options))
+        .then(diff => setCounts(prev => new Map(prev).set(pairKey(i, j), countDiffLines(diff)))));
+    }));
+    setCounts(initial);
+
+    const runQueue = async () => {
+      for (let job = queue.shift(); job && !controller.signal.aborted; job = queue.shift()) {
+        try {
+          await job();
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') return;
+          console.error("Error calculating diff in worker:", error);
+        }
+      }
+    };
+    for (let i = 0; i < Math.min(MAX_CONCURRENT_WORKERS, queue.length); i++) {
+      runQueue();
+    }
+    return () => controller.abort();
+  }, [panels, options]);
+
+  const renderCell = (i: number, j: number) => {
+    if (i === j) {
+      return <span className="text-[var(--color-text-disabled)]">—</span>;
+    }
+    const pair = counts.get(pairKey(i, j));
+    if (!pair) {
+      return <div className="mx-auto w-4 h-4 border-2 border-t-transparent border-[var(--color-accent)] rounded-full animate-spin"></div>;
+    }
+    return (
+      <div className="flex flex-col items-center gap-1">
+        <span className="font-semibold text-[var(--color-text-primary)]">{similarityPercent(pair).toFixed(1)}%</span>
+        <span className="text-xs">
+          <span className="text-[var(--color-diff-add-text)]">+{pair.added}</span>{' '}
+          <span className="text-[var(--color-diff-remove-text)]">−{pair.removed}</span>
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="matrix-modal-title"
+    >
+      <div
+        className="bg-[var(--color-bg-secondary)] rounded-lg shadow-xl w-full max-w-3xl p-6 border border-[var(--color-border)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="matrix-modal-title" className="text-xl font-bold text-[var(--color-text-primary)]">Pairwise Similarity</h2>
+          <button onClick={onClose} aria-label="Close" className="p-1 rounded-full text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-[var(--color-text-muted)] mb-4">
+          Each cell compares the row panel (as base) with the column panel: lines added and removed, and the share of lines in common.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-[var(--color-text-secondary)] border-collapse">
+            <thead>
+              <tr>
+                <th className="p-2"></th>
+                {panels.map(panel => (
+                  <th key={panel.id} className="p-2 font-semibold text-[var(--color-text-primary)] truncate max-w-[10rem]">{panel.title}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {panels.map((from, i) => (
+                <tr key={from.id} className="border-t border-[var(--color-border)]">
+                  <th className="p-2 text-left font-semibold text-[var(--color-text-primary)] truncate max-w-[10rem]">{from.title}</th>
+                  {panels.map((to, j) => (
+                    <td key={to.id} className="p-2 text-center">{renderCell(i, j)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { formatLineRange, formatStatsJson, formatStatsMarkdown, PanelStats } from '../utils/stats';
+import { downloadTextFile } from '../utils/download';
+
+interface StatsDrawerProps {
+  // The plain-text summary shown above the statistics.
+  summary: string;
+  panelStats: PanelStats[];
+  onClose: () => void;
+}
+
+export const StatsDrawer: React.FC<StatsDrawerProps> = ({ summary, panelStats, onClose }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [copied, setCopied] = useState<'markdown' | 'json' | null>(null);
+
+  const copy = async (format: 'markdown' | 'json') => {
+    const text = format === 'markdown' ? formatStatsMarkdown(panelStats) : formatStatsJson(panelStats);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(format);
+      setTimeout(() => setCopied(current => (current === format ? null : current)), 1500);
+    } catch (error) {
+      console.error('Could not copy the statistics:', error);
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 text-xs rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)] disabled:opacity-50 disabled:cursor-not-allowed';
+  const cellClass = 'px-2 py-1 border-b border-[var(--color-border)]';
+
+  return (
+    <div className="flex-shrink-0 flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg max-h-[40vh]">
+      <div className="flex items-center gap-2 px-4 py-2">
+        <button
+          onClick={() => setIsExpanded(v => !v)}
+          className="flex items-center gap-2 text-lg font-semibold text-[var(--color-accent)]"
+          aria-expanded={isExpanded}
+        >
+          <span className="inline-block w-4 text-center">{isExpanded ? '˅' : '›'}</span>
+          Diff Statistics
+        </button>
+        {!isExpanded && <span className="flex-1 min-w-0 truncate text-sm text-[var(--color-text-muted)]">{summary.split('\n')[0]}</span>}
+        <span className="flex-1"></span>
+        <button onClick={() => copy('markdown')} disabled={panelStats.length === 0} className={buttonClass}>
+          {copied === 'markdown' ? 'Copied' : 'Copy Markdown'}
+        </button>
+        <button onClick={() => copy('json')} disabled={panelStats.length === 0} className={buttonClass}>
+          {copied === 'json' ? 'Copied' : 'Copy JSON'}
+        </button>
+        <button
+          onClick={() => downloadTextFile('diff-stats.json', formatStatsJson(panelStats), 'application/json')}
+          disabled={panelStats.length === 0}
+          className={buttonClass}
+        >
+          Download JSON
+        </button>
+        <button onClick={onClose} aria-label="Close statistics" className="p-1 rounded-full text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {isExpanded && (
+        <div className="overflow-y-auto px-4 pb-4 text-sm text-[var(--color-text-secondary)]">
+          <p className="whitespace-pre-wrap mb-3">{summary}</p>
+          {panelStats.length > 0 && (
+            <table className="w-full mb-3 text-left">
+              <thead className="text-xs uppercase tracking-wide text-[var(--color-text-muted)]">
+                <tr>
+                  <th className={cellClass}>Panel</th>
+                  <th className={`${cellClass} text-right`}>Hunks</th>
+                  <th className={`${cellClass} text-right`}>Added</th>
+                  <th className={`${cellClass} text-right`}>Removed</th>
+                  <th className={`${cellClass} text-right`}>Modified</th>
+                  <th className={`${cellClass} text-right`}>Moved</th>
+                  <th className={`${cellClass} text-right`}>Similarity</th>
+                  <th className={cellClass}>Largest change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {panelStats.map(({ title, baseTitle, stats }, index) => (
+                  <tr key={index}>
+                    <td className={cellClass}>
+                      <span className="text-[var(--color-text-primary)]">{title}</span>
+                      <span className="text-xs text-[var(--color-text-muted)]"> vs. {baseTitle}</span>
+                    </td>
+                    <td className={`${cellClass} text-right`}>{stats.hunks}</td>
+                    <td className={`${cellClass} text-right text-[var(--color-diff-add-text)]`}>{stats.added}</td>
+                    <td className={`${cellClass} text-right text-[var(--color-diff-remove-text)]`}>{stats.removed}</td>
+                    <td className={`${cellClass} text-right`}>{stats.modified}</td>
+                    <td className={`${cellClass} text-right text-[var(--color-diff-move-text)]`}>{stats.moved}</td>
+                    <td className={`${cellClass} text-right`}>{stats.similarity.toFixed(1)}%</td>
+                    <td className={cellClass}>
+                      {stats.largestBlock
+                        ? `${stats.largestBlock.baseCount + stats.largestBlock.newCount} lines at ${formatLineRange(stats.largestBlock.newStart, stats.largestBlock.newCount)}`
+                        : '–'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {panelStats.map(({ title, stats }, index) => stats.blocks.length > 0 && (
+            <div key={index} className="mb-2">
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)]">Changed lines in {title}</h4>
+              <p className="code-font text-xs">
+                {stats.blocks.map(block => `${formatLineRange(block.newStart, block.newCount)} (base ${formatLineRange(block.baseStart, block.baseCount)})`).join(', ')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { TableColumnChange, TableDiff, TableRowChange } from '../types';
+import { countTableChanges } from '../utils/tableDiff';
+
+interface TableDiffPanelProps {
+  title: string;
+  baseTitle: string;
+  diff: TableDiff;
+  // The base table's columns, offered as key columns.
+  columns: string[];
+  keyColumns: string[];
+  onKeyColumnsChange: (keyColumns: string[]) => void;
+  className?: string;
+}
+
+const rowStyles: Record<TableRowChange['kind'], React.CSSProperties> = {
+  added: { backgroundColor: 'var(--color-diff-add-bg)' },
+  removed: { backgroundColor: 'var(--color-diff-remove-bg)' },
+  changed: {},
+  unchanged: {},
+};
+
+const rowSymbols: Record<TableRowChange['kind'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  unchanged: '',
+};
+
+const columnHeaderClass = (column: TableColumnChange) => {
+  if (column.status === 'added') return 'text-[var(--color-diff-add-text)]';
+  if (column.status === 'removed') return 'text-[var(--color-diff-remove-text)] line-through';
+  return 'text-[var(--color-text-primary)]';
+};
+
+const describeColumn = (column: TableColumnChange) => {
+  if (column.status === 'added') return `${column.name}: added`;
+  if (column.status === 'removed') return `${column.name}: removed`;
+  return `${column.name}: ${column.changedCells} ${column.changedCells === 1 ? 'cell' : 'cells'} changed`;
+};
+
+/**
+ * Shows a CSV/TSV panel as a grid of row and cell changes against its base, in place
+ * of the text editor.
+ */
+export const TableDiffPanel: React.FC<TableDiffPanelProps> = ({
+  title,
+  baseTitle,
+  diff,
+  columns,
+  keyColumns,
+  onKeyColumnsChange,
+  className = '',
+}) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const counts = diff.error ? null : countTableChanges(diff);
+  const visibleRows = showUnchanged ? diff.rows : diff.rows.filter(row => row.kind !== 'unchanged');
+  const changedColumns = diff.columns.filter(column => column.status !== 'kept' || column.changedCells > 0);
+
+  const toggleKeyColumn = (name: string) => {
+    onKeyColumnsChange(keyColumns.includes(name) ? keyColumns.filter(key => key !== name) : [...keyColumns, name]);
+  };
+
+  const renderCell = (row: TableRowChange, columnIndex: number) => {
+    const cell = row.cells[columnIndex];
+    const column = diff.columns[columnIndex];
+    if (row.kind === 'changed' && column.status === 'kept' && cell.value !== cell.oldValue) {
+      return (
+        <td key={columnIndex} className="px-2 py-1 border-b border-[var(--color-border)] whitespace-pre align-top">
+          <span className="block line-through" style={{ backgroundColor: 'var(--color-diff-remove-word-bg)' }}>{cell.oldValue}</span>
+          <span className="block" style={{ backgroundColor: 'var(--color-diff-add-word-bg)' }}>{cell.value}</span>
+        </td>
+      );
+    }
+    const value = row.kind === 'removed' ? cell.oldValue : cell.value ?? cell.oldValue;
+    return (
+      <td key={columnIndex} className={`px-2 py-1 border-b border-[var(--color-border)] whitespace-pre align-top ${column.status === 'kept' ? '' : 'opacity-60'}`}>
+        {value}
+      </td>
+    );
+  };
+
+  return (
+    <div className={`relative flex flex-col bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg overflow-hidden h-full min-h-0 ${className}`}>
+      <div className="bg-[var(--color-bg-tertiary)] px-4 py-2 flex-shrink-0 border-b border-[var(--color-border)] flex items-center gap-3">
+        <span className="font-semibold text-[var(--color-text-primary)] flex-1 truncate">{title}</span>
+        <span className="text-xs text-[var(--color-text-muted)] truncate">vs. {baseTitle}</span>
+        {counts && (
+          <span className="text-xs text-[var(--color-text-muted)] whitespace-nowrap">
+            <span className="text-[var(--color-diff-add-text)]">+{counts.added}</span>{' '}
+            <span className="text-[var(--color-diff-remove-text)]">−{counts.removed}</span>{' '}
+            ~{counts.changed} rows
+          </span>
+        )}
+      </div>
+      <div className="flex-shrink-0 px-4 py-2 border-b border-[var(--color-border)] flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-[var(--color-text-muted)]">Key columns:</span>
+        {columns.map(name => (
+          <button
+            key={name}
+            onClick={() => toggleKeyColumn(name)}
+            className={`px-2 py-0.5 rounded-md transition-colors ${
+              keyColumns.includes(name)
+                ? 'bg-[var(--color-accent-bg)] text-white hover:bg-[var(--color-accent-bg-hover)]'
+                : 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)]'
+            }`}
+            aria-pressed={keyColumns.includes(name)}
+          >
+            {name || '(unnamed)'}
+          </button>
+        ))}
+        {keyColumns.length === 0 && <span className="text-[var(--color-text-muted)]">none, rows are aligned by content</span>}
+        <span className="flex-1"></span>
+        <label className="flex items-center gap-1 text-[var(--color-text-secondary)] cursor-pointer">
+          <input type="checkbox" checked={showUnchanged} onChange={() => setShowUnchanged(v => !v)} className="accent-[var(--color-accent)]" />
+          Show unchanged rows
+        </label>
+      </div>
+      {diff.error ? (
+        <div className="px-4 py-2 text-sm text-[var(--color-diff-remove-text)] bg-[var(--color-diff-remove-bg)]">{diff.error}</div>
+      ) : (
+        <>
+          {changedColumns.length > 0 && (
+            <div className="flex-shrink-0 px-4 py-2 border-b border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+              <span className="text-[var(--color-text-muted)]">Columns: </span>
+              {changedColumns.map(describeColumn).join(' · ')}
+            </div>
+          )}
+          <div className="flex-1 overflow-auto">
+            {visibleRows.length === 0 ? (
+              <div className="px-4 py-2 text-sm text-[var(--color-text-muted)]">No row differences.</div>
+            ) : (
+              <table className="min-w-full text-sm code-font border-collapse">
+                <thead className="sticky top-0 bg-[var(--color-bg-tertiary)]">
+                  <tr>
+                    <th className="px-2 py-1 w-6"></th>
+                    <th className="px-2 py-1 text-left text-[var(--color-text-muted)] font-semibold">{keyColumns.length > 0 ? keyColumns.join(', ') : 'Row'}</th>
+                    {diff.columns.map((column, columnIndex) => (
+                      <th key={columnIndex} className={`px-2 py-1 text-left font-semibold whitespace-nowrap ${columnHeaderClass(column)}`}>{column.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-[var(--color-text-secondary)]">
+                  {visibleRows.map((row, index) => (
+                    <tr key={index} style={rowStyles[row.kind]}>
+                      <td className="px-2 py-1 border-b border-[var(--color-border)] text-center text-[var(--color-text-muted)]">{rowSymbols[row.kind]}</td>
+                      <td className="px-2 py-1 border-b border-[var(--color-border)] text-[var(--color-text-muted)] whitespace-nowrap">{row.key}</td>
+                      {diff.columns.map((_, columnIndex) => renderCell(row, columnIndex))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
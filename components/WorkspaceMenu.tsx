@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WorkspaceSummary } from '../types';
+import { DEFAULT_WORKSPACE_NAME } from '../utils/workspace';
+
+interface WorkspaceMenuProps {
+  workspaces: WorkspaceSummary[];
+  currentId: string;
+  name: string;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDuplicate: () => void;
+  onDelete: (id: string) => void;
+  // Rejects with an error explaining why the file could not be imported.
+  onImport: (file: File) => Promise<void>;
+  onExport: () => void;
+}
+
+export const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({
+  workspaces,
+  currentId,
+  name,
+  onRename,
+  onOpen,
+  onNew,
+  onDuplicate,
+  onDelete,
+  onImport,
+  onExport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The workspace whose delete button was clicked once; a second click deletes it.
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPendingDeleteId(null);
+      setImportError(null);
+      return;
+    }
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      await onImport(file);
+      setIsOpen(false);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const actionClass = 'px-2 py-1 text-xs rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)] cursor-pointer';
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(v => !v)}
+        className="flex items-center gap-2 max-w-[16rem] px-3 py-1.5 rounded-md text-sm font-semibold bg-[var(--color-bg-tertiary)] text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+        aria-label="Switch workspace"
+        aria-expanded={isOpen}
+      >
+        <FolderIcon />
+        <span className="truncate">{name || DEFAULT_WORKSPACE_NAME}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 mt-2 z-40 w-80 p-2 rounded-lg shadow-xl bg-[var(--color-bg-secondary)] border border-[var(--color-border)]">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] px-2 py-1">Workspace</h3>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => onRename(e.target.value)}
+            placeholder="Workspace name"
+            aria-label="Workspace name"
+            className="w-full mb-2 bg-[var(--color-bg-tertiary)] px-2 py-1 rounded-md text-sm outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+          />
+          <div className="flex flex-wrap gap-2 px-1 mb-2">
+            <button onClick={() => { onNew(); setIsOpen(false); }} className={actionClass}>New</button>
+            <button onClick={() => { onDuplicate(); setIsOpen(false); }} className={actionClass}>Duplicate</button>
+            <label className={actionClass}>
+              Import…
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button onClick={onExport} className={actionClass}>Export</button>
+          </div>
+          {importError && <p className="px-2 mb-2 text-xs text-[var(--color-diff-remove-text)]">{importError}</p>}
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] px-2 py-1">Saved in this browser</h3>
+          <ul className="max-h-64 overflow-y-auto">
+            {workspaces.map(workspace => (
+              <li key={workspace.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    onOpen(workspace.id);
+                    setIsOpen(false);
+                  }}
+                  className={`flex-1 min-w-0 flex items-center gap-2 text-left px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-tertiary)] ${workspace.id === currentId ? 'bg-[var(--color-bg-tertiary)]' : ''}`}
+                >
+                  <span className={`flex-1 truncate text-sm text-[var(--color-text-primary)] ${workspace.id === currentId ? 'font-semibold' : ''}`}>
+                    {workspace.name || DEFAULT_WORKSPACE_NAME}
+                  </span>
+                  <span className="text-xs text-[var(--color-text-muted)]">{new Date(workspace.updatedAt).toLocaleDateString()}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (pendingDeleteId === workspace.id) {
+                      onDelete(workspace.id);
+                      setPendingDeleteId(null);
+                    } else {
+                      setPendingDeleteId(workspace.id);
+                    }
+                  }}
+                  className={`px-2 py-1 text-xs rounded-md ${pendingDeleteId === workspace.id ? 'bg-[var(--color-diff-remove-bg)] text-[var(--color-diff-remove-text)]' : 'text-[var(--color-text-muted)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)]'}`}
+                  aria-label={`Delete ${workspace.name}`}
+                >
+                  {pendingDeleteId === workspace.id ? 'Delete?' : '✕'}
+                </button>
+              </li>
+            ))}
+            {workspaces.length === 0 && (
+              <li className="px-2 py-1.5 text-xs text-[var(--color-text-muted)]">Changes are saved automatically.</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// SVG Icons
+const FolderIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+  </svg>
+);
@@ -0,0 +1,77 @@
+import { DiffLine, DiffOptions, DiffTokens } from "../types";
+
+export interface DiffWorkerRequest {
+  baseText: string;
+  newText: string;
+  options: DiffOptions;
+  // Prism only runs on the main thread, so code diff tokens are computed there and sent along.
+  tokens?: DiffTokens;
+}
+
+export type DiffWorkerResponse = { diff: DiffLine[] } | { error: string };
+
+// Comparisons with fewer lines than this (both sides combined) are cheap enough
+// to diff synchronously while rendering; larger ones go to a worker.
+export const SYNC_DIFF_LINE_LIMIT = 2000;
+
+// How long the text must stay unchanged before a worker diff is started.
+export const DIFF_DEBOUNCE_MS = 250;
+
+const countLines = (text: string): number => {
+  let count = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++;
+  }
+  return count;
+};
+
+export const shouldDiffInWorker = (baseText: string, newText: string): boolean =>
+  countLines(baseText) + countLines(newText) > SYNC_DIFF_LINE_LIMIT;
+
+/**
+ * Computes a diff in a dedicated Web Worker.
+ * Aborting the signal terminates the worker immediately, even mid-computation,
+ * and rejects the returned promise with an AbortError.
+ */
+export const calculateDiffInWorker = (
+  baseText: string,
+  newText: string,
+  options: DiffOptions,
+  signal: AbortSignal,
+  tokens?: DiffTokens
+): Promise<DiffLine[]> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Diff computation was cancelled.', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../utils/diff.worker.ts', import.meta.url), { type: 'module' });
+    const handleAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Diff computation was cancelled.', 'AbortError'));
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    const finish = () => {
+      signal.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => {
+      finish();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.diff);
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      finish();
+      reject(new Error(event.message || 'The diff worker failed.'));
+    };
+
+    const request: DiffWorkerRequest = { baseText, newText, options, tokens };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,44 @@
+import { getLanguageDefinition } from '../utils/language';
+
+declare const Prism: any;
+
+const PRISM_COMPONENTS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/prism/1.29.0/components';
+
+// Loads in progress or done, by Prism component.
+const loads = new Map<string, Promise<boolean>>();
+
+export const isGrammarLoaded = (language: string): boolean =>
+  typeof Prism !== 'undefined' && !!Prism.languages[language];
+
+const loadScript = (src: string): Promise<void> => new Promise((resolve, reject) => {
+  const script = document.createElement('script');
+  script.src = src;
+  script.async = true;
+  script.onload = () => resolve();
+  script.onerror = () => reject(new Error(`Could not load ${src}`));
+  document.head.appendChild(script);
+});
+
+/**
+ * Loads the Prism grammar for a language from the CDN, after the grammars it builds
+ * on. Grammars already on the page are not fetched again.
+ * @returns Whether the grammar is available. A failed load can be retried later.
+ */
+export const loadPrismLanguage = (language: string): Promise<boolean> => {
+  if (typeof Prism === 'undefined') return Promise.resolve(false);
+  if (isGrammarLoaded(language)) return Promise.resolve(true);
+  let load = loads.get(language);
+  if (!load) {
+    const requires = getLanguageDefinition(language)?.requires ?? [];
+    load = Promise.all(requires.map(loadPrismLanguage))
+      .then(() => loadScript(`${PRISM_COMPONENTS_URL}/prism-${language}.min.js`))
+      .then(() => isGrammarLoaded(language))
+      .catch(error => {
+        console.error(`Could not load the ${language} grammar:`, error);
+        loads.delete(language);
+        return false;
+      });
+    loads.set(language, load);
+  }
+  return load;
+};
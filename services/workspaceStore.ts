@@ -0,0 +1,66 @@
+import { Workspace, WorkspaceSummary } from '../types';
+import { normalizeWorkspace } from '../utils/workspace';
+
+const DATABASE_NAME = 'codediff-pro';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'workspaces';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage.
+    database.catch(() => (database = null));
+  }
+  return database;
+};
+
+// Runs one request against the workspace store and resolves once its transaction is done.
+const runRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => (
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }))
+);
+
+/**
+ * Lists the saved workspaces, most recently saved first.
+ */
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const workspaces: Workspace[] = await runRequest('readonly', store => store.getAll());
+  return workspaces
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Reads a saved workspace.
+ * @returns The workspace, or null if there is none with this id or it cannot be read.
+ */
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const stored = await runRequest('readonly', store => store.get(id));
+  if (!stored) return null;
+  try {
+    return normalizeWorkspace(stored);
+  } catch (error) {
+    console.error(`Could not read workspace ${id}:`, error);
+    return null;
+  }
+};
+
+export const saveWorkspace = (workspace: Workspace): Promise<void> => (
+  runRequest('readwrite', store => store.put(workspace)).then(() => undefined)
+);
+
+export const deleteWorkspace = (id: string): Promise<void> => (
+  runRequest('readwrite', store => store.delete(id)).then(() => undefined)
+);
@@ -4,19 +4,114 @@ export enum DiffType {
   Removed = 'removed',
 }
 
+// A changed character range within a line, [start, end) offsets into `DiffLine.text`.
+export interface DiffSegment {
+  start: number;
+  end: number;
+}
+
+// 'token' splits lines into syntax tokens; it needs the token-aware code diff and falls back to 'word'.
+export type InlineDiffGranularity = 'word' | 'char' | 'token';
+
+// A syntax token within one line, [start, end) offsets into the line.
+export interface CodeToken {
+  kind: 'code' | 'comment' | 'whitespace';
+  start: number;
+  end: number;
+}
+
+// The tokens of every line of both sides of a comparison.
+export interface DiffTokens {
+  base: CodeToken[][];
+  new: CodeToken[][];
+}
+
+// Links the two ends of a block of lines that was moved rather than changed.
+// The source end is made of removed lines, the destination end of added lines.
+export interface MoveInfo {
+  id: number;
+  role: 'source' | 'destination';
+  // Index in the diff of the first line of the other end of the move.
+  counterpart: number;
+}
+
 export interface DiffLine {
   type: DiffType;
   text: string;
+  // Set on paired removed/added lines: the parts of the line that actually changed.
+  segments?: DiffSegment[];
+  // Set on added/removed lines that the current DiffOptions say to disregard (e.g. blank lines).
+  ignored?: boolean;
+  move?: MoveInfo;
+}
+
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
+// A matched pair of line indexes, one from each side of a comparison.
+export interface LineMatch {
+  baseIndex: number;
+  newIndex: number;
+}
+
+export interface DiffOptions {
+  algorithm: DiffAlgorithm;
+  ignoreWhitespace: boolean;
+  ignoreCase: boolean;
+  ignoreLineEndings: boolean;
+  ignoreBlankLines: boolean;
+  detectMoves: boolean;
+  inlineGranularity: InlineDiffGranularity;
+  // Match lines by their syntax tokens instead of their raw text (see DiffTokens).
+  tokenDiff: boolean;
+  // With tokenDiff: disregard changes that only touch comments.
+  ignoreComments: boolean;
+  // Text matching an enabled rule is masked out before lines are compared.
+  ignoreRules: IgnoreRule[];
 }
 
+// A group of changed lines plus surrounding context, as in a unified diff.
+// `start`/`end` index into the DiffLine array; the rest are 1-based line numbers and counts.
+export interface DiffHunk {
+  start: number;
+  end: number;
+  baseStart: number;
+  baseCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+// Asks a panel to scroll to its next or previous change block; a new id repeats the request.
+export interface ChangeNavigationRequest {
+  direction: 'next' | 'previous';
+  id: number;
+}
+
+// Asks a panel to scroll to a line of its text; a new id repeats the request.
+export interface LineRevealRequest {
+  line: number;
+  id: number;
+}
+
+// What to do with a change block: copy it into the base panel, or undo it in the compared panel.
+export type HunkAction = 'apply' | 'revert';
+
 export interface PanelData {
   id: string;
   text: string;
   title: string;
+  // The Prism language picked in the panel header; when unset it is detected.
+  language?: string;
 }
 
 export type ThreePanelLayout = 'stacked' | 'side-by-side';
 
+// 'base': every panel is compared against one chosen base panel.
+// 'chain': every panel is compared against the panel before it.
+export type CompareMode = 'base' | 'chain';
+
+// 'inline' interleaves removed lines into each compared panel; 'split' aligns all panels row by row.
+export type DiffViewMode = 'inline' | 'split';
+
 export type EditorTheme = 'dark' | 'light' | 'solarized';
 
 export interface Match {
@@ -28,9 +123,159 @@ export interface Match {
 export interface FindOptions {
   caseSensitive: boolean;
   useRegex: boolean;
+  // Only match where the text is not part of a longer word, by the panel language's idea of a word.
+  wholeWord?: boolean;
+}
+
+// Which text find searches: every panel, the panel last worked in, or only changed or unchanged lines.
+export type FindScope = 'all' | 'panel' | 'changed' | 'unchanged';
+
+// A pattern whose matches are masked before diffing, e.g. timestamps in logs.
+export interface IgnoreRule extends FindOptions {
+  id: string;
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface IgnorePreset {
+  name: string;
+  rules: IgnoreRule[];
 }
 
 export interface FoldableRange {
     startLine: number;
     endLine: number;
-}
\ No newline at end of file
+}
+
+export type FoldCommand = 'fold-all' | 'unfold-all' | 'fold-unchanged';
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+// A piece of a three-way merge result, in order.
+export type MergeChunk =
+  | { kind: 'stable'; lines: string[] }
+  | { kind: 'resolved'; source: 'ours' | 'theirs' | 'both'; lines: string[] }
+  | { kind: 'conflict'; key: string; base: string[]; ours: string[]; theirs: string[] };
+
+export type ExportFormat = 'patch' | 'json' | 'html';
+
+// A line of a unified diff; `noEol` marks the last line of a file without a trailing newline.
+export interface PatchLine extends DiffLine {
+  noEol?: boolean;
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: PatchLine[];
+}
+
+// The hunks of one file in a unified diff. Paths have their a/ and b/ prefixes removed.
+export interface FilePatch {
+  oldPath: string;
+  newPath: string;
+  hunks: PatchHunk[];
+}
+
+// How one hunk fared: where it was expected in the original file and, if it applied,
+// how far it had to be shifted and how many context lines had to be ignored.
+export interface HunkApplyResult {
+  hunk: number;
+  oldStart: number;
+  oldEnd: number;
+  applied: boolean;
+  offset: number;
+  fuzz: number;
+}
+
+export type StructuredFormat = 'json' | 'yaml' | 'ini' | 'env';
+
+// 'off': line diff. 'auto': structural diff, each panel's format chosen from its title.
+export type StructuralMode = 'off' | 'auto' | StructuredFormat;
+
+// A parsed structured document (JSON and similar) with the 0-based lines each node spans.
+export type StructureNode =
+  | { kind: 'object'; entries: Map<string, StructureNode>; startLine: number; endLine: number }
+  | { kind: 'array'; items: StructureNode[]; startLine: number; endLine: number }
+  | { kind: 'value'; value: string | number | boolean | null; startLine: number; endLine: number };
+
+export interface StructuralChange {
+  // e.g. `$.dependencies.react` or `$.items[2]`
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  oldValue?: string;
+  newValue?: string;
+  // 0-based lines of the compared text: the new value, or for a removal the container it was removed from.
+  startLine: number;
+  endLine: number;
+  // The same for the base text: the old value, or for an addition the container it was added to.
+  baseStartLine: number;
+  baseEndLine: number;
+}
+
+// The structural comparison of one panel. `error` is set when this panel or its base cannot be parsed.
+export interface StructuralDiff {
+  changes: StructuralChange[];
+  error: string | null;
+}
+
+// A parsed CSV/TSV file. `rowLines` holds the 0-based line each data row starts on.
+export interface Table {
+  columns: string[];
+  rows: string[][];
+  rowLines: number[];
+}
+
+// One cell of a compared row. `value` is missing in columns the compared table lacks,
+// `oldValue` in columns the base table lacks or on rows that were added.
+export interface TableCell {
+  value?: string;
+  oldValue?: string;
+}
+
+export interface TableRowChange {
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+  // The key column values of the row, joined for display.
+  key: string;
+  // One cell per column of the table diff.
+  cells: TableCell[];
+  // 0-based lines of the row in the compared and the base text.
+  line?: number;
+  baseLine?: number;
+}
+
+export interface TableColumnChange {
+  name: string;
+  status: 'added' | 'removed' | 'kept';
+  // Cells that differ in this column between matched rows.
+  changedCells: number;
+}
+
+// The table comparison of one panel. `error` is set when this panel or its base cannot be parsed.
+export interface TableDiff {
+  columns: TableColumnChange[];
+  rows: TableRowChange[];
+  error: string | null;
+}
+
+// A saved comparison: its panels and the view settings needed to reopen it as it was left.
+export interface Workspace {
+  id: string;
+  name: string;
+  // When it was last saved, in ms since the epoch.
+  updatedAt: number;
+  panels: PanelData[];
+  theme: EditorTheme;
+  threePanelLayout: ThreePanelLayout;
+  viewMode: DiffViewMode;
+  compareMode: CompareMode;
+  basePanelId: string;
+  diffOptions: DiffOptions;
+  // The folded 1-based text lines of each panel, by panel id.
+  foldedLines: Record<string, number[]>;
+}
+
+// What the workspace switcher lists of a workspace.
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'updatedAt'>;
@@ -0,0 +1,115 @@
+import { DiffLine, DiffType } from '../types';
+
+/**
+ * What a panel shows in the split view: its own lines laid out on rows shared by all
+ * panels, so that lines a comparison matched sit on the same row everywhere.
+ */
+export interface SplitView {
+  // One entry per line of the panel's text. Lines differing from its base are marked
+  // added; lines a panel compared against this one dropped are marked removed.
+  lines: DiffLine[];
+  // One entry per row: an index into `lines`, or null for a filler row.
+  rows: (number | null)[];
+}
+
+const toLines = (text: string): DiffLine[] => text.split('\n').map(line => ({ type: DiffType.Unchanged, text: line }));
+
+/**
+ * Aligns every panel onto a common set of rows. Panels are placed after the panel
+ * they are compared with: unchanged lines share their base line's row, and the lines
+ * added in a change block take the rows of that block (opposite the removed lines
+ * first) before new rows are inserted. Every other panel gets a filler row there.
+ * @param texts The text of each panel.
+ * @param diffs Each panel's diff against its base, or null for a panel without one.
+ * @param bases The index of the panel each panel is compared with, or null.
+ * @returns One view per panel, or null while a compared panel has no diff yet.
+ */
+export const alignPanels = (texts: string[], diffs: (DiffLine[] | null)[], bases: (number | null)[]): SplitView[] | null => {
+  if (bases.some((base, i) => base !== null && !diffs[i])) return null;
+
+  const lines = texts.map((text, i) => (bases[i] !== null ? diffs[i]!.filter(line => line.type !== DiffType.Removed) : toLines(text)));
+  // The row each panel's lines are on. Rows are ids; `order` is their top-to-bottom order.
+  const slots: number[][] = texts.map(() => []);
+  let order: number[] = [];
+  let slotCount = 0;
+
+  const placed = new Set<number>();
+  const place = (index: number) => {
+    const base = bases[index];
+    if (base === null) {
+      // A panel compared with nothing starts at the top.
+      lines[index].forEach((_, i) => {
+        if (i === order.length) order.push(slotCount++);
+        slots[index].push(order[i]);
+      });
+      placed.add(index);
+      return;
+    }
+
+    const position = new Map<number, number>();
+    order.forEach((slot, i) => position.set(slot, i));
+    const baseSlots = slots[base];
+    const nextOrder: number[] = [];
+    let cursor = 0;
+    let baseLine = 0;
+    let added = 0;
+    // Gives the lines added since the last unchanged line the rows up to `end`.
+    const flush = (end: number) => {
+      const available = order.slice(cursor, end);
+      nextOrder.push(...available);
+      for (let i = 0; i < added; i++) {
+        if (i < available.length) {
+          slots[index].push(available[i]);
+        } else {
+          nextOrder.push(slotCount);
+          slots[index].push(slotCount++);
+        }
+      }
+      cursor = end;
+      added = 0;
+    };
+    for (const line of diffs[index]!) {
+      if (line.type === DiffType.Added) {
+        added++;
+      } else if (line.type === DiffType.Removed) {
+        baseLine++;
+      } else {
+        const at = position.get(baseSlots[baseLine++])!;
+        flush(at);
+        nextOrder.push(order[at]);
+        slots[index].push(order[at]);
+        cursor = at + 1;
+      }
+    }
+    flush(order.length);
+    order = nextOrder;
+    placed.add(index);
+  };
+
+  // Bases are placed before the panels compared with them.
+  while (placed.size < texts.length) {
+    const next = texts.findIndex((_, i) => !placed.has(i) && (bases[i] === null || placed.has(bases[i]!)));
+    if (next < 0) return null;
+    place(next);
+  }
+
+  // Mark the lines each comparison removed in its base, unless the base marks them itself.
+  diffs.forEach((diff, index) => {
+    const base = bases[index];
+    if (base === null || !diff) return;
+    let baseLine = 0;
+    for (const line of diff) {
+      if (line.type === DiffType.Added) continue;
+      if (line.type === DiffType.Removed && lines[base][baseLine]?.type === DiffType.Unchanged) {
+        lines[base][baseLine] = { type: DiffType.Removed, text: line.text, segments: line.segments, ignored: line.ignored };
+      }
+      baseLine++;
+    }
+  });
+
+  return lines.map((panelLines, index) => {
+    const lineAt = new Map<number, number>();
+    slots[index].forEach((slot, i) => lineAt.set(slot, i));
+    return { lines: panelLines, rows: order.map(slot => lineAt.get(slot) ?? null) };
+  });
+};
@@ -0,0 +1,95 @@
+import { CodeToken, DiffOptions, DiffTokens, PanelData } from '../types';
+import { getPanelLanguage } from './language';
+
+declare const Prism: any;
+
+// Text Prism leaves untyped (identifiers, operators, spaces) is split like the word diff does.
+const PLAIN_UNITS = /\s+|\w+|[^\w\s]/g;
+
+// What Prism.tokenize returns: plain strings and typed tokens, which may nest.
+interface PrismToken {
+  type: string;
+  content: string | PrismToken | PrismStream;
+  alias?: string | string[];
+}
+type PrismStream = Array<string | PrismToken>;
+
+// The most recent tokenizations kept per grammar. Comparisons are redone on every edit, and
+// usually only one panel's text has changed since the last time.
+const MAX_CACHED_TEXTS = 8;
+const tokenCache = new WeakMap<object, Map<string, CodeToken[][]>>();
+
+/**
+ * Splits text into syntax tokens per line using the Prism grammar for `language`.
+ * Tokens that span lines (block comments, template strings) are cut at each line
+ * break. Must run where the Prism global is loaded, i.e. not in the diff worker.
+ * The result is cached and shared, so it must not be modified.
+ * @returns One token list per line, or null if Prism or the grammar is unavailable.
+ */
+export const tokenizeLines = (text: string, language: string): CodeToken[][] | null => {
+  const grammar = typeof Prism !== 'undefined' ? Prism.languages[language] : null;
+  if (!grammar) return null;
+  let cache = tokenCache.get(grammar);
+  if (!cache) {
+    cache = new Map();
+    tokenCache.set(grammar, cache);
+  }
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  const lines: CodeToken[][] = [[]];
+  let column = 0;
+
+  const emit = (content: string, kind: CodeToken['kind'] | 'plain') => {
+    content.split('\n').forEach((part, i) => {
+      if (i > 0) {
+        lines.push([]);
+        column = 0;
+      }
+      if (part === '') return;
+      const line = lines[lines.length - 1];
+      if (kind === 'plain') {
+        for (const unit of part.match(PLAIN_UNITS) ?? []) {
+          line.push({ kind: /^\s+$/.test(unit) ? 'whitespace' : 'code', start: column, end: column + unit.length });
+          column += unit.length;
+        }
+        return;
+      }
+      line.push({ kind: kind === 'code' && /^\s+$/.test(part) ? 'whitespace' : kind, start: column, end: column + part.length });
+      column += part.length;
+    });
+  };
+
+  const walk = (stream: PrismStream, inComment: boolean) => {
+    for (const item of stream) {
+      if (typeof item === 'string') {
+        emit(item, inComment ? 'comment' : 'plain');
+        continue;
+      }
+      const aliases = Array.isArray(item.alias) ? item.alias : item.alias ? [item.alias] : [];
+      const isComment = inComment || item.type === 'comment' || aliases.includes('comment');
+      if (typeof item.content === 'string') {
+        emit(item.content, isComment ? 'comment' : 'code');
+      } else {
+        walk(Array.isArray(item.content) ? item.content : [item.content], isComment);
+      }
+    }
+  };
+
+  walk(Prism.tokenize(text, grammar), false);
+  cache.set(text, lines);
+  if (cache.size > MAX_CACHED_TEXTS) cache.delete(cache.keys().next().value!);
+  return lines;
+};
+
+/**
+ * Tokenizes both sides of a comparison for the token-aware code diff, each with the
+ * grammar of its panel's language.
+ * @returns The tokens, or undefined if the code diff is off or a grammar is missing.
+ */
+export const getDiffTokens = (base: PanelData, target: PanelData, options: DiffOptions): DiffTokens | undefined => {
+  if (!options.tokenDiff) return undefined;
+  const baseTokens = tokenizeLines(base.text, getPanelLanguage(base));
+  const newTokens = tokenizeLines(target.text, getPanelLanguage(target));
+  return baseTokens && newTokens ? { base: baseTokens, new: newTokens } : undefined;
+};
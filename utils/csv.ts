@@ -0,0 +1,112 @@
+import { Table } from '../types';
+
+export type TableDelimiter = ',' | '\t';
+
+/**
+ * Picks the delimiter of a CSV/TSV panel: from its title's extension, or else from
+ * its first line (tabs but no commas means TSV).
+ */
+export const getTableDelimiter = (title: string, text: string): TableDelimiter => {
+  const lowerTitle = title.toLowerCase();
+  if (lowerTitle.endsWith('.tsv') || lowerTitle.endsWith('.tab')) return '\t';
+  if (lowerTitle.endsWith('.csv')) return ',';
+  const firstLine = text.split('\n', 1)[0];
+  return firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+};
+
+/**
+ * Whether a panel looks like a CSV/TSV table: by its title's extension, or else by its
+ * first two lines splitting into the same number of fields, more than one.
+ */
+export const isTablePanel = (title: string, text: string): boolean => {
+  const lowerTitle = title.toLowerCase();
+  if (['.csv', '.tsv', '.tab'].some(ext => lowerTitle.endsWith(ext))) return true;
+  const delimiter = getTableDelimiter(title, text);
+  const [first = '', second = ''] = text.split('\n', 2).map(line => line.replace(/\r$/, ''));
+  const fieldCount = first.split(delimiter).length;
+  return fieldCount > 1 && second.split(delimiter).length === fieldCount;
+};
+
+// The name given to a column that has cells but no header, e.g. "(column 4)".
+const unnamedColumn = (index: number) => `(column ${index + 1})`;
+
+/**
+ * Parses CSV or TSV text as RFC 4180 describes it: fields may be quoted with `"`,
+ * quotes inside them are doubled, and quoted fields may contain delimiters and line
+ * breaks. The first row holds the column names. Blank lines are skipped and short
+ * rows are padded with empty cells; rows longer than the header get unnamed columns
+ * for their extra cells, so no value goes uncompared.
+ * @throws An error naming the line of an unterminated quoted field or a stray quote.
+ */
+export const parseDelimited = (text: string, delimiter: TableDelimiter): Table => {
+  const records: string[][] = [];
+  const recordLines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let isQuoted = false;
+  let line = 0;
+  let recordLine = 0;
+  let i = 0;
+
+  const endRecord = () => {
+    // A line with nothing on it is not a record; a line holding just `""` is.
+    if (record.length > 0 || field !== '' || isQuoted) {
+      record.push(field);
+      records.push(record);
+      recordLines.push(recordLine);
+    }
+    record = [];
+    field = '';
+    isQuoted = false;
+    recordLine = line;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && field === '' && !isQuoted) {
+      const startLine = line;
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new Error(`Unterminated quoted field starting at line ${startLine + 1}`);
+        if (text[i] === '"') {
+          if (text[i + 1] !== '"') break;
+          field += '"';
+          i += 2;
+          continue;
+        }
+        if (text[i] === '\n') line++;
+        field += text[i++];
+      }
+      i++;
+      // Anything but a delimiter or line break after the closing quote is malformed.
+      if (i < text.length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') {
+        throw new Error(`Unexpected character after a quoted field at line ${line + 1}`);
+      }
+      isQuoted = true;
+      continue;
+    }
+    if (char === delimiter) {
+      record.push(field);
+      field = '';
+      isQuoted = false;
+      i++;
+    } else if (char === '\n' || (char === '\r' && text[i + 1] === '\n')) {
+      i += char === '\r' ? 2 : 1;
+      line++;
+      endRecord();
+    } else {
+      field += char;
+      i++;
+    }
+  }
+  endRecord();
+
+  const [header = [], ...rows] = records;
+  const width = rows.reduce((max, row) => Math.max(max, row.length), header.length);
+  for (let c = header.length; c < width; c++) header.push(unnamedColumn(c));
+  return {
+    columns: header,
+    rows: rows.map(row => (row.length < header.length ? [...row, ...Array(header.length - row.length).fill('')] : row)),
+    rowLines: recordLines.slice(1),
+  };
+};
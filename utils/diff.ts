@@ -1,43 +1,164 @@
+import { CodeToken, DiffLine, DiffOptions, DiffTokens, DiffType, LineMatch } from '../types';
+import { getLineMatcher } from './diffAlgorithms';
+import { addInlineSegments } from './inlineDiff';
+import { detectMovedBlocks } from './moves';
+import { normalizeLine, normalizeTokens, significantTokens } from './normalize';
 
-import { DiffLine, DiffType } from '../types';
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  algorithm: 'myers',
+  ignoreWhitespace: false,
+  ignoreCase: false,
+  ignoreLineEndings: false,
+  ignoreBlankLines: false,
+  detectMoves: true,
+  inlineGranularity: 'word',
+  tokenDiff: false,
+  ignoreComments: false,
+  ignoreRules: [],
+};
 
-export const calculateDiff = (baseText: string, newText: string): DiffLine[] => {
-  const baseLines = baseText.split('\n');
-  const newLines = newText.split('\n');
-  const n = baseLines.length;
-  const m = newLines.length;
+const isBlank = (line: string): boolean => line.trim() === '';
+
+/**
+ * Matches lines by their normalized keys. When blank keys are skipped, the
+ * non-blank lines are matched first; blank lines are then only paired up within
+ * the gaps between those anchors, so they can never pull the alignment around.
+ */
+const matchLines = (baseKeys: string[], newKeys: string[], options: DiffOptions, skipBlankKeys: boolean): LineMatch[] => {
+  const match = getLineMatcher(options.algorithm);
+  if (!skipBlankKeys) return match(baseKeys, newKeys);
+
+  const baseKept = baseKeys.flatMap((key, i) => (isBlank(key) ? [] : [i]));
+  const newKept = newKeys.flatMap((key, i) => (isBlank(key) ? [] : [i]));
+  const anchors = match(baseKept.map(i => baseKeys[i]), newKept.map(i => newKeys[i]))
+    .map(m => ({ baseIndex: baseKept[m.baseIndex], newIndex: newKept[m.newIndex] }));
+
+  const matches: LineMatch[] = [];
+  let baseStart = 0;
+  let newStart = 0;
+  for (const anchor of [...anchors, { baseIndex: baseKeys.length, newIndex: newKeys.length }]) {
+    match(baseKeys.slice(baseStart, anchor.baseIndex), newKeys.slice(newStart, anchor.newIndex))
+      .forEach(m => matches.push({ baseIndex: baseStart + m.baseIndex, newIndex: newStart + m.newIndex }));
+    if (anchor.baseIndex < baseKeys.length) matches.push(anchor);
+    baseStart = anchor.baseIndex + 1;
+    newStart = anchor.newIndex + 1;
+  }
+  return matches;
+};
+
+// One step of the edit script: a line taken from the base, the new text, or both.
+interface DiffOp {
+  type: DiffType;
+  baseIndex: number;
+  newIndex: number;
+}
 
-  const dp = Array(n + 1).fill(null).map(() => Array(m + 1).fill(0));
+/**
+ * Shifts runs of pure insertions or deletions down as far as they can go, the way
+ * git compacts "sliders". An added run whose first line equals the unchanged line
+ * after it is equivalent to the same run shifted by one; always picking the lowest
+ * position makes a moved function come out as one contiguous block.
+ */
+const slideChangeRuns = (ops: DiffOp[], baseKeys: string[], newKeys: string[]): void => {
+  let start = 0;
+  while (start < ops.length) {
+    const type = ops[start].type;
+    if (type === DiffType.Unchanged || (start > 0 && ops[start - 1].type !== DiffType.Unchanged)) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < ops.length && ops[end].type === type) end++;
 
-  for (let i = 1; i <= n; i++) {
-    for (let j = 1; j <= m; j++) {
-      if (baseLines[i - 1] === newLines[j - 1]) {
-        dp[i][j] = 1 + dp[i - 1][j - 1];
+    const keyOf = (op: DiffOp) => (type === DiffType.Added ? newKeys[op.newIndex] : baseKeys[op.baseIndex]);
+    while (end < ops.length && ops[end].type === DiffType.Unchanged && keyOf(ops[start]) === keyOf(ops[end])) {
+      const first = ops[start];
+      const next = ops[end];
+      if (type === DiffType.Added) {
+        ops[start] = { type: DiffType.Unchanged, baseIndex: next.baseIndex, newIndex: first.newIndex };
+        ops[end] = { type: DiffType.Added, baseIndex: -1, newIndex: next.newIndex };
       } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+        ops[start] = { type: DiffType.Unchanged, baseIndex: first.baseIndex, newIndex: next.newIndex };
+        ops[end] = { type: DiffType.Removed, baseIndex: next.baseIndex, newIndex: -1 };
       }
+      start++;
+      end++;
     }
+    start = end;
   }
+};
 
-  const diff: DiffLine[] = [];
-  let i = n;
-  let j = m;
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && baseLines[i - 1] === newLines[j - 1]) {
-      diff.unshift({ type: DiffType.Unchanged, text: newLines[j - 1] });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      diff.unshift({ type: DiffType.Added, text: newLines[j - 1] });
-      j--;
-    } else if (i > 0 && (j === 0 || dp[i][j - 1] < dp[i - 1][j])) {
-      diff.unshift({ type: DiffType.Removed, text: baseLines[i - 1] });
-      i--;
-    } else {
-      break;
+/**
+ * Computes the line diff between two texts.
+ * @param tokens With `options.tokenDiff`: the syntax tokens of both texts (see
+ * `getDiffTokens`). Lines are then matched by their tokens, and inline changes can
+ * be highlighted token by token. Without tokens the plain line diff is used.
+ */
+export const calculateDiff = (
+  baseText: string,
+  newText: string,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+  tokens?: DiffTokens
+): DiffLine[] => {
+  const baseLines = baseText.split('\n');
+  const newLines = newText.split('\n');
+  const codeTokens = options.tokenDiff ? tokens : undefined;
+  const baseKeys = codeTokens
+    ? baseLines.map((line, i) => normalizeTokens(line, codeTokens.base[i] ?? [], options))
+    : baseLines.map(line => normalizeLine(line, options));
+  const newKeys = codeTokens
+    ? newLines.map((line, i) => normalizeTokens(line, codeTokens.new[i] ?? [], options))
+    : newLines.map(line => normalizeLine(line, options));
+  // Lines left with nothing to compare (blank, or only ignored tokens) are disregarded.
+  const skipBlankKeys = options.ignoreBlankLines || (!!codeTokens && (options.ignoreComments || options.ignoreWhitespace));
+  const matches = matchLines(baseKeys, newKeys, options, skipBlankKeys);
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+
+  // Between two matched lines, emit the removed base lines before the added ones.
+  for (const match of [...matches, { baseIndex: baseLines.length, newIndex: newLines.length }]) {
+    while (i < match.baseIndex) {
+      ops.push({ type: DiffType.Removed, baseIndex: i++, newIndex: -1 });
+    }
+    while (j < match.newIndex) {
+      ops.push({ type: DiffType.Added, baseIndex: -1, newIndex: j++ });
+    }
+    if (i < baseLines.length && j < newLines.length) {
+      ops.push({ type: DiffType.Unchanged, baseIndex: i++, newIndex: j++ });
     }
   }
+  slideChangeRuns(ops, baseKeys, newKeys);
+
+  const lineKeys = ops.map(({ type, baseIndex, newIndex }) => (type === DiffType.Removed ? baseKeys[baseIndex] : newKeys[newIndex]));
+  const diff = ops.map(({ type, baseIndex, newIndex }, i): DiffLine => {
+    const text = type === DiffType.Removed ? baseLines[baseIndex] : newLines[newIndex];
+    if (type !== DiffType.Unchanged && skipBlankKeys && isBlank(lineKeys[i])) {
+      return { type, text, ignored: true };
+    }
+    return { type, text };
+  });
+
+  const lineTokens = codeTokens && ops.map(({ type, baseIndex, newIndex }): CodeToken[] =>
+    significantTokens((type === DiffType.Removed ? codeTokens.base[baseIndex] : codeTokens.new[newIndex]) ?? [], options));
+
+  const withMoves = options.detectMoves ? detectMovedBlocks(diff, lineKeys) : diff;
+  return addInlineSegments(withMoves, options.inlineGranularity, lineTokens);
+};
+
+// Whether a diff computed with these options describes the texts exactly as they are.
+const isRawDiffOptions = (options: DiffOptions): boolean =>
+  !options.ignoreWhitespace && !options.ignoreCase && !options.ignoreLineEndings && !options.ignoreBlankLines &&
+  !options.tokenDiff && !options.ignoreRules.some(rule => rule.enabled && rule.pattern);
 
-  return diff;
+/**
+ * Computes the diff of two texts as they are, with no whitespace, case or ignore rule
+ * normalization. Anything that writes text out (merging, patches, hunk actions) needs
+ * this diff: a normalized one treats lines as equal that are not.
+ * @param diff The diff shown for the same texts; reused when it is already raw.
+ */
+export const calculateRawDiff = (baseText: string, newText: string, options: DiffOptions, diff?: DiffLine[] | null): DiffLine[] => {
+  if (diff && isRawDiffOptions(options)) return diff;
+  return calculateDiff(baseText, newText, { ...DEFAULT_DIFF_OPTIONS, algorithm: options.algorithm, detectMoves: false });
 };
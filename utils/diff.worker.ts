@@ -0,0 +1,13 @@
+import { calculateDiff } from './diff';
+import type { DiffWorkerRequest, DiffWorkerResponse } from '../services/diffWorker';
+
+self.onmessage = (event: MessageEvent<DiffWorkerRequest>) => {
+  const { baseText, newText, options, tokens } = event.data;
+  let response: DiffWorkerResponse;
+  try {
+    response = { diff: calculateDiff(baseText, newText, options, tokens) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
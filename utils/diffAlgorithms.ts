@@ -0,0 +1,41 @@
+import { DiffAlgorithm, LineMatch } from '../types';
+import { myersDiff } from './myers';
+import { patienceDiff } from './patience';
+import { histogramDiff } from './histogram';
+
+/**
+ * A line-matching strategy. Given the (normalized) lines of both sides, it returns
+ * the pairs of lines considered unchanged, in ascending order on both sides.
+ */
+export type LineMatcher = (baseLines: string[], newLines: string[]) => LineMatch[];
+
+export interface DiffAlgorithmStrategy {
+  id: DiffAlgorithm;
+  label: string;
+  description: string;
+  match: LineMatcher;
+}
+
+export const diffAlgorithms: Record<DiffAlgorithm, DiffAlgorithmStrategy> = {
+  myers: {
+    id: 'myers',
+    label: 'Myers',
+    description: 'Minimal diff; the classic default.',
+    match: myersDiff,
+  },
+  patience: {
+    id: 'patience',
+    label: 'Patience',
+    description: 'Anchors on unique lines; keeps moved code and braces readable.',
+    match: patienceDiff,
+  },
+  histogram: {
+    id: 'histogram',
+    label: 'Histogram',
+    description: 'Like patience, but also anchors on rare lines (git\'s choice for code).',
+    match: histogramDiff,
+  },
+};
+
+export const getLineMatcher = (algorithm: DiffAlgorithm): LineMatcher =>
+  (diffAlgorithms[algorithm] ?? diffAlgorithms.myers).match;
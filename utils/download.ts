@@ -0,0 +1,17 @@
+/**
+ * Offers text content to the user as a file download.
+ * @param filename The suggested file name.
+ * @param content The file contents.
+ * @param mimeType The MIME type of the file.
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/plain'): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -1,36 +1,79 @@
-import { FoldableRange } from '../types';
+import { DiffLine, DiffType, FoldableRange } from '../types';
+import { getFoldingProvider } from './folding';
 
 /**
- * Finds foldable ranges in a text, typically based on matching curly braces.
+ * Finds foldable ranges in a text with the folding provider for its language.
  * @param text The text to analyze.
- * @returns An array of foldable ranges, each with a start and end line number.
+ * @param language The Prism language of the text.
+ * @returns The foldable ranges by start line, each with 1-based start and end line
+ * numbers. Folding a range hides the lines between them.
  */
-export const findFoldableRanges = (text: string): FoldableRange[] => {
-  const lines = text.split('\n');
-  const ranges: FoldableRange[] = [];
-  const stack: number[] = [];
+export const findFoldableRanges = (text: string, language: string): FoldableRange[] => {
+  const provider = getFoldingProvider(language);
+  return provider ? provider.findRanges(text, language) : [];
+};
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // Simple logic: find lines with opening braces
-    if (line.includes('{')) {
-      stack.push(i + 1); // 1-based line number
-    }
+/**
+ * Finds the 1-based lines of a panel's text that take part in a change: lines added
+ * relative to its base, and lines that a panel compared with it removed.
+ * @param index The panel to look at.
+ * @param diffs Each panel's diff against its base, or null.
+ * @param bases The index of the panel each panel is compared with, or null.
+ */
+export const findChangedLines = (index: number, diffs: (DiffLine[] | null)[], bases: (number | null)[]): Set<number> => {
+  const changed = new Set<number>();
+  const ownDiff = bases[index] !== null ? diffs[index] : null;
+  let line = 0;
+  ownDiff?.forEach(diffLine => {
+    if (diffLine.type === DiffType.Removed) return;
+    line++;
+    if (diffLine.type === DiffType.Added) changed.add(line);
+  });
+  bases.forEach((base, other) => {
+    if (base !== index || !diffs[other]) return;
+    let baseLine = 0;
+    diffs[other]!.forEach(diffLine => {
+      if (diffLine.type === DiffType.Added) return;
+      baseLine++;
+      if (diffLine.type === DiffType.Removed) changed.add(baseLine);
+    });
+  });
+  return changed;
+};
+
+/**
+ * Returns the start lines of the ranges that hide none of the given lines, i.e. the
+ * folds that only hide unchanged code.
+ */
+export const findUnchangedRanges = (ranges: FoldableRange[], changedLines: Set<number>): number[] => (
+  ranges
+    .filter(({ startLine, endLine }) => {
+      for (let line = startLine + 1; line < endLine; line++) if (changedLines.has(line)) return false;
+      return true;
+    })
+    .map(range => range.startLine)
+);
 
-    // Find lines with closing braces
-    if (line.includes('}')) {
-      if (stack.length > 0) {
-        const startLine = stack.pop()!;
-        const endLine = i + 1; // 1-based line number
-        // Only consider multi-line blocks as foldable
-        if (endLine > startLine) {
-          ranges.push({ startLine, endLine });
-        }
-      }
-    }
+/**
+ * Returns the offset at which each line of a text starts.
+ */
+export const getLineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+};
+
+/**
+ * Finds the 0-based line an offset falls on.
+ * @param lineStarts The text's line starts, from getLineStarts.
+ */
+export const getLineAtOffset = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
   }
-  
-  // Sort ranges by start line number
-  return ranges.sort((a, b) => a.startLine - b.startLine);
+  return low;
 };
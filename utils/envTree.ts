@@ -0,0 +1,50 @@
+import { StructureNode } from '../types';
+
+const ASSIGNMENT = /^\s*(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*)$/;
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * Parses a .env file (`KEY=value` lines, optionally prefixed with `export`) into a
+ * flat object. Double-quoted values may span lines and use `\n`-style escapes;
+ * single-quoted values are taken literally; unquoted values end at ` #`.
+ * @throws An error naming the first line that is not an assignment or comment.
+ */
+export const parseEnvTree = (text: string): StructureNode => {
+  const lines = text.split('\n');
+  const entries = new Map<string, StructureNode>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+    const assignment = ASSIGNMENT.exec(line);
+    if (!assignment) {
+      throw new Error(`Expected KEY=value at line ${i + 1}`);
+    }
+    const [, key, rawValue] = assignment;
+    const startLine = i;
+    let value: string;
+
+    if (rawValue.startsWith('"')) {
+      let body = rawValue.slice(1);
+      let end = body.search(/(?<!\\)"/);
+      while (end === -1) {
+        if (++i >= lines.length) throw new Error(`Unterminated quoted value for ${key} starting at line ${startLine + 1}`);
+        body += '\n' + lines[i].replace(/\r$/, '');
+        end = body.search(/(?<!\\)"/);
+      }
+      value = body.slice(0, end).replace(/\\(.)/g, (match, char: string) => ESCAPES[char] ?? match);
+    } else if (rawValue.startsWith("'")) {
+      const end = rawValue.indexOf("'", 1);
+      if (end === -1) throw new Error(`Unterminated quoted value for ${key} at line ${i + 1}`);
+      value = rawValue.slice(1, end);
+    } else {
+      value = rawValue.replace(/\s+#.*$/, '').trim();
+    }
+
+    entries.delete(key);
+    entries.set(key, { kind: 'value', value, startLine, endLine: i });
+  }
+
+  return { kind: 'object', entries, startLine: 0, endLine: Math.max(0, lines.length - 1) };
+};
@@ -0,0 +1,226 @@
+import { DiffLine, DiffOptions, DiffType, PanelData, PatchLine } from '../types';
+import { calculateRawDiff } from './diff';
+import { DEFAULT_CONTEXT_LINES, groupIntoHunks } from './hunks';
+import { countDiffLines, similarityPercent } from './stats';
+
+// One panel compared against another, as shown on screen.
+export interface Comparison {
+  base: PanelData;
+  target: PanelData;
+  diff: DiffLine[];
+}
+
+const endsWithNewline = (text: string) => text === '' || text.endsWith('\n');
+
+/**
+ * Converts a raw diff into patch lines. The editor treats the empty string
+ * after a trailing newline as a line; a patch instead records a missing trailing
+ * newline with "\ No newline at end of file".
+ */
+const toPatchLines = (diff: DiffLine[], baseText: string, newText: string): PatchLine[] => {
+  const basePhantom = endsWithNewline(baseText);
+  const newPhantom = endsWithNewline(newText);
+  let lastBase = -1;
+  let lastNew = -1;
+  diff.forEach((line, i) => {
+    if (line.type !== DiffType.Added) lastBase = i;
+    if (line.type !== DiffType.Removed) lastNew = i;
+  });
+
+  // The diff may pair one side's phantom line with a real empty line of the other side;
+  // only the phantom half of such a pair is dropped.
+  const lines: PatchLine[] = diff.flatMap((line, i): PatchLine[] => {
+    const dropBase = basePhantom && i === lastBase;
+    const dropNew = newPhantom && i === lastNew;
+    if (!dropBase && !dropNew) return [line];
+    if (line.type === DiffType.Unchanged && dropBase !== dropNew) {
+      return [{ ...line, type: dropBase ? DiffType.Added : DiffType.Removed }];
+    }
+    return [];
+  });
+  if (basePhantom && newPhantom) return lines;
+
+  lastBase = -1;
+  lastNew = -1;
+  lines.forEach((line, i) => {
+    if (line.type !== DiffType.Added) lastBase = i;
+    if (line.type !== DiffType.Removed) lastNew = i;
+  });
+  const baseNoEol = !basePhantom && lastBase !== -1;
+  const newNoEol = !newPhantom && lastNew !== -1;
+
+  return lines.flatMap((line, i): PatchLine[] => {
+    const isBaseEnd = baseNoEol && i === lastBase;
+    const isNewEnd = newNoEol && i === lastNew;
+    if (!isBaseEnd && !isNewEnd) return [line];
+    if (line.type !== DiffType.Unchanged) return [{ ...line, noEol: true }];
+    if (isBaseEnd && isNewEnd) return [{ ...line, noEol: true }];
+    // An unchanged line that ends one file but not the other differs by its newline.
+    return [
+      { type: DiffType.Removed, text: line.text, noEol: isBaseEnd },
+      { type: DiffType.Added, text: line.text, noEol: isNewEnd },
+    ];
+  });
+};
+
+const patchPrefix = (type: DiffType) => (type === DiffType.Added ? '+' : type === DiffType.Removed ? '-' : ' ');
+
+/**
+ * Writes comparisons as a git-compatible unified diff, one file section per comparison.
+ * Comparisons without changes are left out. The patch is made from the texts as they are,
+ * so that it applies to the base even when the diff shown disregards some differences.
+ */
+export const exportUnifiedDiff = (comparisons: Comparison[], options: DiffOptions, contextLines = DEFAULT_CONTEXT_LINES): string => {
+  const output: string[] = [];
+  for (const { base, target, diff } of comparisons) {
+    const lines = toPatchLines(calculateRawDiff(base.text, target.text, options, diff), base.text, target.text);
+    const hunks = groupIntoHunks(lines, contextLines);
+    if (hunks.length === 0) continue;
+
+    output.push(`diff --git a/${base.title} b/${target.title}`, `--- a/${base.title}`, `+++ b/${target.title}`);
+    for (const hunk of hunks) {
+      output.push(`@@ -${hunk.baseStart},${hunk.baseCount} +${hunk.newStart},${hunk.newCount} @@`);
+      for (const line of lines.slice(hunk.start, hunk.end)) {
+        output.push(patchPrefix(line.type) + line.text);
+        if (line.noEol) output.push('\\ No newline at end of file');
+      }
+    }
+  }
+  return output.length > 0 ? output.join('\n') + '\n' : '';
+};
+
+// Pairs every diff line with its base and new line numbers (null where a side has no line).
+const numberLines = (diff: DiffLine[]) => {
+  let baseLine = 0;
+  let newLine = 0;
+  return diff.map(line => ({
+    line,
+    baseLine: line.type !== DiffType.Added ? ++baseLine : null,
+    newLine: line.type !== DiffType.Removed ? ++newLine : null,
+  }));
+};
+
+/**
+ * Writes comparisons as a machine-readable JSON document with per-comparison
+ * statistics and hunks.
+ */
+export const exportJson = (comparisons: Comparison[], options: DiffOptions, contextLines = DEFAULT_CONTEXT_LINES): string => {
+  const report = {
+    generatedAt: new Date().toISOString(),
+    options,
+    comparisons: comparisons.map(({ base, target, diff }) => {
+      const counts = countDiffLines(diff);
+      const numbered = numberLines(diff);
+      return {
+        base: base.title,
+        target: target.title,
+        stats: { ...counts, similarity: Number(similarityPercent(counts).toFixed(2)) },
+        hunks: groupIntoHunks(diff, contextLines).map(hunk => ({
+          baseStart: hunk.baseStart,
+          baseCount: hunk.baseCount,
+          newStart: hunk.newStart,
+          newCount: hunk.newCount,
+          lines: numbered.slice(hunk.start, hunk.end).map(({ line, baseLine, newLine }) => ({
+            type: line.type,
+            text: line.text,
+            baseLine,
+            newLine,
+            ...(line.move ? { move: line.move } : {}),
+          })),
+        })),
+      };
+    }),
+  };
+  return JSON.stringify(report, null, 2);
+};
+
+// CSS custom properties copied from the page so the report matches the current theme.
+const THEME_VARIABLES = [
+  '--color-bg-primary',
+  '--color-bg-secondary',
+  '--color-bg-tertiary',
+  '--color-border',
+  '--color-text-primary',
+  '--color-text-secondary',
+  '--color-text-muted',
+  '--color-accent',
+  '--color-diff-add-bg',
+  '--color-diff-remove-bg',
+  '--color-diff-add-text',
+  '--color-diff-remove-text',
+  '--color-diff-move-bg',
+];
+
+/**
+ * Reads the current theme's colors from the element carrying the theme class.
+ */
+export const readThemeColors = (element: HTMLElement): Record<string, string> => {
+  const style = getComputedStyle(element);
+  return Object.fromEntries(THEME_VARIABLES.map(name => [name, style.getPropertyValue(name).trim()]));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Writes comparisons as a self-contained HTML report that uses the given theme colors.
+ */
+export const exportHtmlReport = (
+  comparisons: Comparison[],
+  themeColors: Record<string, string>,
+  contextLines = DEFAULT_CONTEXT_LINES
+): string => {
+  const variables = Object.entries(themeColors).map(([name, value]) => `${name}: ${value};`).join(' ');
+  const sections = comparisons.map(({ base, target, diff }) => {
+    const counts = countDiffLines(diff);
+    const numbered = numberLines(diff);
+    const hunks = groupIntoHunks(diff, contextLines);
+    const rows = hunks.map(hunk => {
+      const header = `<tr class="hunk"><td colspan="4">@@ -${hunk.baseStart},${hunk.baseCount} +${hunk.newStart},${hunk.newCount} @@</td></tr>`;
+      const body = numbered.slice(hunk.start, hunk.end).map(({ line, baseLine, newLine }) => {
+        const rowClass = line.move ? 'moved' : line.type;
+        return `<tr class="${rowClass}"><td class="num">${baseLine ?? ''}</td><td class="num">${newLine ?? ''}</td>` +
+          `<td class="sign">${patchPrefix(line.type)}</td><td class="code">${escapeHtml(line.text)}</td></tr>`;
+      }).join('\n');
+      return header + '\n' + body;
+    }).join('\n');
+
+    return `<section>
+  <h2>${escapeHtml(base.title)} → ${escapeHtml(target.title)}</h2>
+  <p class="stats"><span class="add">+${counts.added}</span> <span class="del">−${counts.removed}</span> · ${similarityPercent(counts).toFixed(1)}% similar</p>
+  ${hunks.length === 0 ? '<p class="none">No differences.</p>' : `<table>\n${rows}\n</table>`}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>CodeDiff Pro Report</title>
+<style>
+  :root { ${variables} }
+  body { margin: 2rem; font-family: system-ui, sans-serif; background: var(--color-bg-primary); color: var(--color-text-primary); }
+  h1 { color: var(--color-accent); }
+  section { margin-bottom: 2rem; background: var(--color-bg-secondary); border: 1px solid var(--color-border); border-radius: 8px; padding: 1rem; }
+  h2 { margin: 0 0 .25rem; font-size: 1.1rem; }
+  .stats, .none { color: var(--color-text-muted); margin: 0 0 1rem; }
+  .add { color: var(--color-diff-add-text); }
+  .del { color: var(--color-diff-remove-text); }
+  table { width: 100%; border-collapse: collapse; font-family: 'Fira Code', monospace; font-size: 13px; }
+  td { padding: 0 .5rem; white-space: pre; vertical-align: top; }
+  td.num { width: 1%; text-align: right; color: var(--color-text-muted); user-select: none; }
+  td.sign { width: 1%; color: var(--color-text-muted); user-select: none; }
+  tr.added { background: var(--color-diff-add-bg); }
+  tr.removed { background: var(--color-diff-remove-bg); }
+  tr.moved { background: var(--color-diff-move-bg); }
+  tr.hunk td { color: var(--color-accent); background: var(--color-bg-tertiary); padding: .25rem .5rem; }
+</style>
+</head>
+<body>
+<h1>CodeDiff Pro Report</h1>
+<p class="stats">Generated ${escapeHtml(new Date().toLocaleString())}</p>
+${sections}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,269 @@
+import { FoldableRange } from '../types';
+
+export type FoldingStrategy = 'braces' | 'indentation' | 'headings' | 'tags';
+
+export interface FoldingProvider {
+  id: FoldingStrategy;
+  label: string;
+  // Prism language ids this provider folds.
+  languages: string[];
+  findRanges: (text: string, language: string) => FoldableRange[];
+}
+
+const OPENERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+const CLOSERS = new Set(Object.values(OPENERS));
+// After these words a `/` starts a regular expression rather than a division.
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+// Languages where `'` quotes a single character rather than a string. Rust also uses it,
+// unclosed, for lifetimes and loop labels (`'a`).
+const CHAR_QUOTE_LANGUAGES = new Set(['go', 'rust', 'java', 'csharp']);
+const CHAR_LITERAL = /'(?:\\[^\n]+?|[^\\\n])'/y;
+
+// Keeps the longest range per start line, e.g. for `foo({` closed by `})`.
+const collectRanges = (ranges: FoldableRange[]): FoldableRange[] => {
+  const byStart = new Map<number, FoldableRange>();
+  for (const range of ranges) {
+    if (range.endLine - range.startLine < 2) continue;
+    const existing = byStart.get(range.startLine);
+    if (!existing || range.endLine > existing.endLine) byStart.set(range.startLine, range);
+  }
+  return [...byStart.values()].sort((a, b) => a.startLine - b.startLine);
+};
+
+/**
+ * Folds C-like code from each opening bracket to its closing one. Brackets inside
+ * strings, template literals (outside `${}`), comments and regular expressions are
+ * skipped. The closing line stays visible.
+ */
+const findBraceRanges = (text: string, language: string): FoldableRange[] => {
+  const ranges: FoldableRange[] = [];
+  const isCharQuote = CHAR_QUOTE_LANGUAGES.has(language);
+  // Open brackets, plus a `${` entry for each template literal interpolation.
+  const openers: { char: string; line: number }[] = [];
+  const modes: ('code' | 'template')[] = ['code'];
+  let line = 1;
+  // The last character or word of code, to tell regular expressions from divisions.
+  let previous = '';
+
+  const skipTo = (i: number, end: number) => {
+    for (let j = i; j < end; j++) if (text[j] === '\n') line++;
+    return end;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (modes[modes.length - 1] === 'template') {
+      if (char === '\\') i += 2;
+      else if (char === '`') { modes.pop(); previous = '`'; i++; }
+      else if (char === '$' && text[i + 1] === '{') { openers.push({ char: '${', line }); modes.push('code'); previous = '{'; i += 2; }
+      else { if (char === '\n') line++; i++; }
+      continue;
+    }
+
+    if (char === '\n') { line++; i++; continue; }
+    if (/\s/.test(char)) { i++; continue; }
+    if (char === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+      continue;
+    }
+    if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = skipTo(i, end < 0 ? text.length : end + 2);
+      continue;
+    }
+    if (char === "'" && isCharQuote) {
+      CHAR_LITERAL.lastIndex = i;
+      const literal = CHAR_LITERAL.exec(text);
+      previous = literal ? 'x' : char;
+      i += literal ? literal[0].length : 1;
+      continue;
+    }
+    if (char === '"' || char === "'" || (char === '/' && (previous === '' || REGEX_KEYWORDS.has(previous) || /^[(,=:[!&|?{};+\-*%<>~^]$/.test(previous)))) {
+      // A string or regular expression; either ends at the line break if unterminated.
+      let j = i + 1;
+      let inClass = false;
+      while (j < text.length && text[j] !== '\n') {
+        if (text[j] === '\\') j++;
+        else if (char === '/' && text[j] === '[') inClass = true;
+        else if (char === '/' && text[j] === ']') inClass = false;
+        else if (text[j] === char && !inClass) { j++; break; }
+        j++;
+      }
+      previous = 'x';
+      i = j;
+      continue;
+    }
+    if (char === '`') { modes.push('template'); i++; continue; }
+
+    if (OPENERS[char]) {
+      openers.push({ char, line });
+    } else if (CLOSERS.has(char)) {
+      const top = openers[openers.length - 1];
+      if (char === '}' && top?.char === '${') {
+        openers.pop();
+        modes.pop();
+        i++;
+        continue;
+      }
+      // Tolerate unbalanced code by closing the nearest matching bracket.
+      let k = openers.length - 1;
+      while (k >= 0 && OPENERS[openers[k].char] !== char && openers[k].char !== '${') k--;
+      if (k >= 0 && openers[k].char !== '${') {
+        ranges.push({ startLine: openers[k].line, endLine: line });
+        openers.length = k;
+      }
+    }
+
+    const word = /^[\w$]+/.exec(text.slice(i, i + 64));
+    if (word) {
+      previous = word[0];
+      i += word[0].length;
+    } else {
+      previous = char;
+      i++;
+    }
+  }
+  return collectRanges(ranges);
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/**
+ * Folds the lines indented deeper than the line above them, for Python and YAML.
+ * Trailing blank lines stay outside the fold.
+ */
+const findIndentationRanges = (text: string): FoldableRange[] => {
+  const lines = text.split('\n');
+  const ranges: FoldableRange[] = [];
+  // Lines still collecting deeper lines, innermost last.
+  const open: { line: number; indent: number; lastDeeper: number }[] = [];
+  const close = (entry: { line: number; lastDeeper: number }) => {
+    if (entry.lastDeeper > entry.line) ranges.push({ startLine: entry.line, endLine: entry.lastDeeper + 1 });
+  };
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') return;
+    const indent = indentOf(line);
+    while (open.length > 0 && open[open.length - 1].indent >= indent) close(open.pop()!);
+    open.forEach(entry => (entry.lastDeeper = i + 1));
+    open.push({ line: i + 1, indent, lastDeeper: i + 1 });
+  });
+  open.forEach(close);
+  return collectRanges(ranges);
+};
+
+/**
+ * Folds Markdown sections from a heading to the next heading of the same or a higher
+ * level, and fenced code blocks up to their closing fence.
+ */
+const findHeadingRanges = (text: string): FoldableRange[] => {
+  const lines = text.split('\n');
+  const ranges: FoldableRange[] = [];
+  const sections: { line: number; level: number }[] = [];
+  let fence: { line: number; marker: string } | null = null;
+
+  lines.forEach((line, i) => {
+    const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length) {
+        ranges.push({ startLine: fence.line, endLine: i + 1 });
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = { line: i + 1, marker: fenceMatch[1] };
+      return;
+    }
+    const heading = /^\s{0,3}(#{1,6})(\s|$)/.exec(line);
+    if (!heading) return;
+    const level = heading[1].length;
+    while (sections.length > 0 && sections[sections.length - 1].level >= level) {
+      ranges.push({ startLine: sections.pop()!.line, endLine: i + 1 });
+    }
+    sections.push({ line: i + 1, level });
+  });
+  sections.forEach(section => ranges.push({ startLine: section.line, endLine: lines.length + 1 }));
+  return collectRanges(ranges);
+};
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const TAG_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[!?][^>]*>|<(\/?)([A-Za-z][\w:.-]*)(?:[^>"']|"[^"]*"|'[^']*')*?(\/?)>/g;
+
+/**
+ * Folds markup from each opening tag to its closing tag, and multi-line comments.
+ * Void and self-closing elements do not fold; script and style contents are skipped.
+ */
+const findTagRanges = (text: string): FoldableRange[] => {
+  const ranges: FoldableRange[] = [];
+  const open: { name: string; line: number }[] = [];
+  let line = 1;
+  let counted = 0;
+  const lineAt = (index: number) => {
+    for (; counted < index; counted++) if (text[counted] === '\n') line++;
+    return line;
+  };
+
+  const pattern = new RegExp(TAG_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const startLine = lineAt(match.index);
+    const [tag, closing, rawName, selfClosing] = match;
+    if (!rawName) {
+      if (tag.startsWith('<!--')) ranges.push({ startLine, endLine: lineAt(match.index + tag.length) });
+      continue;
+    }
+    const name = rawName.toLowerCase();
+    if (closing) {
+      const k = open.map(entry => entry.name).lastIndexOf(name);
+      if (k >= 0) {
+        ranges.push({ startLine: open[k].line, endLine: startLine });
+        open.length = k;
+      }
+    } else if (!selfClosing && !VOID_ELEMENTS.has(name)) {
+      open.push({ name, line: startLine });
+      if (name === 'script' || name === 'style') {
+        const end = text.toLowerCase().indexOf(`</${name}`, pattern.lastIndex);
+        if (end >= 0) pattern.lastIndex = end;
+      }
+    }
+  }
+  return collectRanges(ranges);
+};
+
+export const foldingProviders: Record<FoldingStrategy, FoldingProvider> = {
+  braces: {
+    id: 'braces',
+    label: 'Brackets',
+    languages: ['javascript', 'typescript', 'jsx', 'tsx', 'css', 'json', 'go', 'rust', 'java', 'csharp'],
+    findRanges: findBraceRanges,
+  },
+  indentation: {
+    id: 'indentation',
+    label: 'Indentation',
+    languages: ['python', 'yaml'],
+    findRanges: findIndentationRanges,
+  },
+  headings: {
+    id: 'headings',
+    label: 'Headings',
+    languages: ['markdown'],
+    findRanges: findHeadingRanges,
+  },
+  tags: {
+    id: 'tags',
+    label: 'Tags',
+    languages: ['markup'],
+    findRanges: findTagRanges,
+  },
+};
+
+/**
+ * Picks the folding provider for a Prism language. Languages without one, like INI,
+ * have no folding.
+ */
+export const getFoldingProvider = (language: string): FoldingProvider | null => (
+  Object.values(foldingProviders).find(provider => provider.languages.includes(language)) ?? null
+);
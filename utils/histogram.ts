@@ -0,0 +1,101 @@
+import { LineMatch } from '../types';
+import { myersDiff } from './myers';
+
+// Lines occurring more often than this in a range are not used to split it;
+// if nothing rarer is found the range falls back to Myers, as in git.
+const MAX_CHAIN_LENGTH = 64;
+
+interface Region {
+  baseStart: number;
+  newStart: number;
+  length: number;
+  occurrences: number;
+}
+
+/**
+ * Finds the common region to split a range on: the one built around the line
+ * with the fewest occurrences in the base range, preferring longer regions on ties.
+ */
+const findSplitRegion = (
+  baseLines: string[], aLo: number, aHi: number,
+  newLines: string[], bLo: number, bHi: number
+): Region | 'fallback' | null => {
+  const positions = new Map<string, number[]>();
+  for (let i = aLo; i < aHi; i++) {
+    const list = positions.get(baseLines[i]);
+    if (list) list.push(i);
+    else positions.set(baseLines[i], [i]);
+  }
+
+  let best: Region | null = null;
+  let hasCommonLine = false;
+  let j = bLo;
+  while (j < bHi) {
+    const basePositions = positions.get(newLines[j]);
+    let nextJ = j + 1;
+    if (basePositions) {
+      hasCommonLine = true;
+      const occurrences = basePositions.length;
+      if (occurrences <= MAX_CHAIN_LENGTH && (!best || occurrences <= best.occurrences)) {
+        for (const i of basePositions) {
+          let baseStart = i;
+          let newStart = j;
+          while (baseStart > aLo && newStart > bLo && baseLines[baseStart - 1] === newLines[newStart - 1]) {
+            baseStart--;
+            newStart--;
+          }
+          let length = j - newStart + 1;
+          while (baseStart + length < aHi && newStart + length < bHi && baseLines[baseStart + length] === newLines[newStart + length]) {
+            length++;
+          }
+          if (!best || occurrences < best.occurrences || length > best.length) {
+            best = { baseStart, newStart, length, occurrences };
+          }
+          nextJ = Math.max(nextJ, newStart + length);
+        }
+      }
+    }
+    j = nextJ;
+  }
+
+  if (best) return best;
+  return hasCommonLine ? 'fallback' : null;
+};
+
+/**
+ * Computes the matching lines between two line arrays using histogram diff, the
+ * variant of patience diff used by git that also handles lines which are not unique.
+ * @returns The matched line index pairs, in ascending order on both sides.
+ */
+export const histogramDiff = (baseLines: string[], newLines: string[]): LineMatch[] => {
+  const matches: LineMatch[] = [];
+  const stack: number[][] = [[0, baseLines.length, 0, newLines.length]];
+
+  while (stack.length > 0) {
+    let [aLo, aHi, bLo, bHi] = stack.pop()!;
+
+    while (aLo < aHi && bLo < bHi && baseLines[aLo] === newLines[bLo]) {
+      matches.push({ baseIndex: aLo++, newIndex: bLo++ });
+    }
+    while (aLo < aHi && bLo < bHi && baseLines[aHi - 1] === newLines[bHi - 1]) {
+      matches.push({ baseIndex: --aHi, newIndex: --bHi });
+    }
+    if (aLo === aHi || bLo === bHi) continue;
+
+    const region = findSplitRegion(baseLines, aLo, aHi, newLines, bLo, bHi);
+    if (region === null) continue;
+    if (region === 'fallback') {
+      myersDiff(baseLines.slice(aLo, aHi), newLines.slice(bLo, bHi))
+        .forEach(m => matches.push({ baseIndex: aLo + m.baseIndex, newIndex: bLo + m.newIndex }));
+      continue;
+    }
+
+    for (let k = 0; k < region.length; k++) {
+      matches.push({ baseIndex: region.baseStart + k, newIndex: region.newStart + k });
+    }
+    stack.push([aLo, region.baseStart, bLo, region.newStart]);
+    stack.push([region.baseStart + region.length, aHi, region.newStart + region.length, bHi]);
+  }
+
+  return matches.sort((x, y) => x.baseIndex - y.baseIndex);
+};
@@ -0,0 +1,78 @@
+import { PanelData } from '../types';
+
+// The most states kept; the oldest are dropped beyond this.
+const MAX_HISTORY_ENTRIES = 200;
+// The most text, in characters, the states before the current one may add; the oldest are
+// dropped beyond this. Entries share the panels they did not change, so only changed ones count.
+const MAX_HISTORY_TEXT_LENGTH = 20000000;
+// Edits with the same merge key closer together than this become one entry, so typing is undone a burst at a time.
+const MERGE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  // What led to this state, e.g. "Replace All (12)".
+  label: string;
+  panels: PanelData[];
+  // When the entry was recorded or last merged into, in ms since the epoch.
+  time: number;
+  // Entries with the same key recorded in quick succession are merged.
+  mergeKey?: string;
+}
+
+/**
+ * The panel states the user can undo and redo through, oldest first. `index` is the
+ * state shown; the entries after it are the ones Redo goes to.
+ */
+export interface PanelHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+export const createHistory = (panels: PanelData[]): PanelHistory => ({
+  entries: [{ label: 'Opened', panels, time: Date.now() }],
+  index: 0,
+});
+
+// The length of the panel texts an entry holds that the entry before it does not.
+const changedTextLength = (entry: HistoryEntry, previous: HistoryEntry): number =>
+  entry.panels.reduce((length, panel) => (previous.panels.includes(panel) ? length : length + panel.text.length), 0);
+
+// Drops the oldest entries beyond the entry and text limits, always keeping one state to undo to.
+const trimHistory = (entries: HistoryEntry[]): HistoryEntry[] => {
+  let first = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  let length = 0;
+  for (let i = entries.length - 1; i > first; i--) {
+    length += changedTextLength(entries[i], entries[i - 1]);
+    if (length > MAX_HISTORY_TEXT_LENGTH && i < entries.length - 1) {
+      first = i;
+      break;
+    }
+  }
+  return entries.slice(first);
+};
+
+/**
+ * Records a new panel state after the current one, discarding the states that could
+ * have been redone. The history is returned unchanged if the panels are.
+ */
+export const recordHistory = (history: PanelHistory, label: string, panels: PanelData[], mergeKey?: string): PanelHistory => {
+  const current = history.entries[history.index];
+  if (panels === current.panels) return history;
+
+  const time = Date.now();
+  const kept = history.entries.slice(0, history.index + 1);
+  // Only the newest entry is merged into, and never the first, so every undo target stays reachable.
+  const canMerge = history.index > 0 && history.index === history.entries.length - 1;
+  if (canMerge && mergeKey && current.mergeKey === mergeKey && time - current.time < MERGE_WINDOW_MS) {
+    kept[kept.length - 1] = { ...current, panels, time };
+    return { entries: kept, index: kept.length - 1 };
+  }
+  const entries = trimHistory([...kept, { label, panels, time, mergeKey }]);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Moves to another recorded state; used for undo, redo and jumping through the history list.
+ */
+export const goToHistoryEntry = (history: PanelHistory, index: number): PanelHistory => (
+  index < 0 || index >= history.entries.length || index === history.index ? history : { ...history, index }
+);
@@ -0,0 +1,96 @@
+import { DiffHunk, DiffLine, DiffType, HunkAction } from '../types';
+
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Groups a line diff into hunks: each run of changed lines plus up to
+ * `contextLines` unchanged lines on either side, like `diff -U<n>`. Hunks whose
+ * context would touch or overlap are merged.
+ * @param diff The line diff to group.
+ * @param contextLines The number of unchanged lines to keep around each change.
+ * @returns The hunks in order. A diff without changes has no hunks.
+ */
+export const groupIntoHunks = (diff: DiffLine[], contextLines: number = DEFAULT_CONTEXT_LINES): DiffHunk[] => {
+  const ranges: { start: number; end: number }[] = [];
+  diff.forEach((line, i) => {
+    if (line.type === DiffType.Unchanged) return;
+    const start = Math.max(0, i - contextLines);
+    const end = Math.min(diff.length, i + 1 + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let baseLinesBefore = 0;
+  let newLinesBefore = 0;
+  let position = 0;
+  for (const { start, end } of ranges) {
+    for (; position < start; position++) {
+      if (diff[position].type !== DiffType.Added) baseLinesBefore++;
+      if (diff[position].type !== DiffType.Removed) newLinesBefore++;
+    }
+    let baseCount = 0;
+    let newCount = 0;
+    for (let i = start; i < end; i++) {
+      if (diff[i].type !== DiffType.Added) baseCount++;
+      if (diff[i].type !== DiffType.Removed) newCount++;
+    }
+    // As in unified diffs, an empty side points at the line before the hunk.
+    hunks.push({
+      start,
+      end,
+      baseStart: baseCount === 0 ? baseLinesBefore : baseLinesBefore + 1,
+      baseCount,
+      newStart: newCount === 0 ? newLinesBefore : newLinesBefore + 1,
+      newCount,
+    });
+  }
+  return hunks;
+};
+
+/**
+ * Returns the runs of diff lines that fall outside every hunk, i.e. the unchanged
+ * stretches that can be collapsed. Runs shorter than `minLength` are left out.
+ */
+export const findCollapsibleRanges = (
+  diff: DiffLine[],
+  hunks: DiffHunk[],
+  minLength = 2
+): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  let position = 0;
+  for (const hunk of [...hunks, { start: diff.length, end: diff.length }]) {
+    if (hunk.start - position >= minLength) {
+      ranges.push({ start: position, end: hunk.start });
+    }
+    position = hunk.end;
+  }
+  return ranges;
+};
+
+/**
+ * Rebuilds one side of a comparison with a single hunk's changes taken or undone:
+ * the hunk's line range on one side is replaced by its range on the other. Only the
+ * original texts are edited, so lines the diff options treat as equal keep their
+ * exact form outside the hunk and are copied exactly inside it.
+ * @param hunk The changes to move over, e.g. a change block from `groupIntoHunks(diff, 0)`.
+ * @param action 'apply' returns the base text with the hunk's changes made;
+ * 'revert' returns the compared text with them undone.
+ */
+export const resolveHunk = (baseText: string, newText: string, hunk: DiffHunk, action: HunkAction): string => {
+  const baseLines = baseText.split('\n');
+  const newLines = newText.split('\n');
+  // Hunk starts are 1-based, or the line before the hunk when that side is empty.
+  const baseStart = hunk.baseCount === 0 ? hunk.baseStart : hunk.baseStart - 1;
+  const newStart = hunk.newCount === 0 ? hunk.newStart : hunk.newStart - 1;
+  const baseRange = baseLines.slice(baseStart, baseStart + hunk.baseCount);
+  const newRange = newLines.slice(newStart, newStart + hunk.newCount);
+  const result = action === 'apply'
+    ? [...baseLines.slice(0, baseStart), ...newRange, ...baseLines.slice(baseStart + hunk.baseCount)]
+    : [...newLines.slice(0, newStart), ...baseRange, ...newLines.slice(newStart + hunk.newCount)];
+  return result.join('\n');
+};
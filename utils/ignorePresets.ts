@@ -0,0 +1,49 @@
+import { IgnorePreset, IgnoreRule } from '../types';
+
+const STORAGE_KEY = 'codediff-ignore-presets';
+
+const regexRule = (pattern: string): IgnoreRule => ({
+  id: pattern,
+  pattern,
+  useRegex: true,
+  caseSensitive: false,
+  enabled: true,
+});
+
+// Always offered; saved presets with the same name take their place.
+export const BUILT_IN_PRESETS: IgnorePreset[] = [
+  {
+    name: 'Timestamps',
+    rules: [
+      regexRule('\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?(?:Z|[+-]\\d{2}:?\\d{2})?'),
+      regexRule('\\b\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?\\b'),
+    ],
+  },
+  {
+    name: 'UUIDs',
+    rules: [regexRule('\\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\b')],
+  },
+  {
+    name: 'Memory addresses',
+    rules: [regexRule('\\b0x[0-9a-f]{6,16}\\b')],
+  },
+];
+
+/**
+ * Reads the presets saved in this browser. Unreadable or malformed storage counts
+ * as no presets rather than an error.
+ */
+export const loadIgnorePresets = (): IgnorePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((preset): preset is IgnorePreset => typeof preset?.name === 'string' && Array.isArray(preset.rules))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveIgnorePresets = (presets: IgnorePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
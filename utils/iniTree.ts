@@ -0,0 +1,54 @@
+import { StructureNode } from '../types';
+
+const SECTION = /^\s*\[([^\]]+)\]\s*(?:[;#].*)?$/;
+const PROPERTY = /^\s*([^=:;#\s][^=:]*?)\s*[=:]\s*(.*)$/;
+
+type ObjectNode = Extract<StructureNode, { kind: 'object' }>;
+
+const unquote = (value: string) =>
+  value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]
+    ? value.slice(1, -1)
+    : value;
+
+/**
+ * Parses an INI file into an object of sections, each an object of keys. Keys
+ * before the first `[section]` header sit at the top level. Comments start with
+ * `;` or `#`, at the start of a line or after whitespace.
+ * @throws An error naming the first line that is neither a header, a property nor a comment.
+ */
+export const parseIniTree = (text: string): StructureNode => {
+  const lines = text.split('\n');
+  const root: ObjectNode = { kind: 'object', entries: new Map(), startLine: 0, endLine: Math.max(0, lines.length - 1) };
+  let section: ObjectNode = root;
+
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith(';') || trimmed.startsWith('#')) return;
+
+    const header = SECTION.exec(line);
+    if (header) {
+      const name = header[1].trim();
+      // A repeated section header continues the earlier section.
+      const existing = root.entries.get(name);
+      if (existing?.kind === 'object') {
+        section = existing;
+      } else {
+        section = { kind: 'object', entries: new Map(), startLine: i, endLine: i };
+        root.entries.set(name, section);
+      }
+      return;
+    }
+
+    const property = PROPERTY.exec(line);
+    if (!property) {
+      throw new Error(`Expected "key = value" or "[section]" at line ${i + 1}`);
+    }
+    const value = unquote(property[2].replace(/\s+[;#].*$/, '').trim());
+    section.entries.delete(property[1]);
+    section.entries.set(property[1], { kind: 'value', value, startLine: i, endLine: i });
+    if (section !== root) section.endLine = i;
+  });
+
+  return root;
+};
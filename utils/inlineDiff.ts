@@ -0,0 +1,120 @@
+import { CodeToken, DiffLine, DiffSegment, DiffType, InlineDiffGranularity } from '../types';
+import { myersDiff } from './myers';
+
+// Paired lines sharing less than this fraction of their text are treated as
+// unrelated, and keep plain whole-line highlighting.
+const MIN_SIMILARITY = 0.4;
+
+// Lines longer than this are not sub-diffed; the result would be unreadable anyway.
+const MAX_INLINE_LENGTH = 5000;
+
+// A piece of a line that the inline diff matches as a whole.
+interface InlineUnit {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const splitUnits = (text: string, granularity: InlineDiffGranularity, tokens?: CodeToken[]): InlineUnit[] => {
+  if (granularity === 'token' && tokens) {
+    return tokens.map(({ start, end }) => ({ text: text.slice(start, end), start, end }));
+  }
+  const pieces = granularity === 'char' ? text.split('') : text.match(/\w+|\s+|[^\w\s]/g) || [];
+  let offset = 0;
+  return pieces.map(piece => {
+    const start = offset;
+    offset += piece.length;
+    return { text: piece, start, end: offset };
+  });
+};
+
+/**
+ * Turns the unmatched units of one side into character ranges, merging ranges
+ * that touch or are separated only by whitespace.
+ */
+const toSegments = (text: string, units: InlineUnit[], matched: Set<number>): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  units.forEach(({ start, end }, i) => {
+    if (matched.has(i)) return;
+
+    const last = segments[segments.length - 1];
+    if (last && /^\s*$/.test(text.slice(last.end, start))) {
+      last.end = end;
+    } else {
+      segments.push({ start, end });
+    }
+  });
+  return segments;
+};
+
+const unitLength = (units: InlineUnit[]) => units.reduce((sum, unit) => sum + unit.text.length, 0);
+
+/**
+ * Computes the changed character ranges between a removed line and the added
+ * line that replaced it.
+ * @param tokens For 'token' granularity: the syntax tokens of each line to compare.
+ * Tokens left out (ignored comments or whitespace) are never highlighted.
+ * @returns The segments for each side, or null if the lines are too different
+ * for a sub-diff to be useful.
+ */
+export const computeInlineSegments = (
+  removedText: string,
+  addedText: string,
+  granularity: InlineDiffGranularity = 'word',
+  tokens?: { removed: CodeToken[]; added: CodeToken[] }
+): { removed: DiffSegment[]; added: DiffSegment[] } | null => {
+  if (removedText.length > MAX_INLINE_LENGTH || addedText.length > MAX_INLINE_LENGTH) return null;
+
+  const removedUnits = splitUnits(removedText, granularity, tokens?.removed);
+  const addedUnits = splitUnits(addedText, granularity, tokens?.added);
+  const matches = myersDiff(removedUnits.map(unit => unit.text), addedUnits.map(unit => unit.text));
+
+  const sharedLength = matches.reduce((sum, m) => sum + removedUnits[m.baseIndex].text.length, 0);
+  const longest = Math.max(unitLength(removedUnits), unitLength(addedUnits));
+  if (longest === 0 || sharedLength / longest < MIN_SIMILARITY) return null;
+
+  return {
+    removed: toSegments(removedText, removedUnits, new Set(matches.map(m => m.baseIndex))),
+    added: toSegments(addedText, addedUnits, new Set(matches.map(m => m.newIndex))),
+  };
+};
+
+/**
+ * Pairs up removed and added lines within each change block (first removed with
+ * first added, and so on) and annotates them with intra-line change segments.
+ * @param diff The line diff to annotate. Lines are replaced, not mutated.
+ * @param lineTokens For 'token' granularity: the significant tokens of each diff line.
+ * @returns A new diff with `segments` set on paired lines that are similar enough.
+ */
+export const addInlineSegments = (
+  diff: DiffLine[],
+  granularity: InlineDiffGranularity = 'word',
+  lineTokens?: CodeToken[][]
+): DiffLine[] => {
+  const result = [...diff];
+  let i = 0;
+  while (i < result.length) {
+    if (result[i].type === DiffType.Unchanged) {
+      i++;
+      continue;
+    }
+
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (i < result.length && result[i].type !== DiffType.Unchanged) {
+      if (!result[i].ignored && !result[i].move) {
+        (result[i].type === DiffType.Removed ? removed : added).push(i);
+      }
+      i++;
+    }
+
+    for (let k = 0; k < Math.min(removed.length, added.length); k++) {
+      const tokens = lineTokens && { removed: lineTokens[removed[k]], added: lineTokens[added[k]] };
+      const segments = computeInlineSegments(result[removed[k]].text, result[added[k]].text, granularity, tokens);
+      if (!segments) continue;
+      result[removed[k]] = { ...result[removed[k]], segments: segments.removed };
+      result[added[k]] = { ...result[added[k]], segments: segments.added };
+    }
+  }
+  return result;
+};
@@ -0,0 +1,136 @@
+import { StructureNode } from '../types';
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: [string, boolean | null][] = [['true', true], ['false', false], ['null', null]];
+
+/**
+ * Parses JSON text into a tree that remembers which lines each value spans. Object
+ * keys keep their last value when repeated, as with `JSON.parse`.
+ * @throws An error naming the line and column of the first syntax error.
+ */
+export const parseJsonTree = (text: string): StructureNode => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (position: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = lineAt(pos);
+    throw new Error(`${message} at line ${line + 1}, column ${pos - lineStarts[line] + 1}`);
+  };
+  const unexpected = (): never =>
+    pos >= text.length ? fail('Unexpected end of input') : fail(`Unexpected character ${JSON.stringify(text[pos])}`);
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\n') fail('Unterminated string');
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) fail('Unterminated string');
+    pos++;
+    try {
+      return JSON.parse(text.slice(start, pos));
+    } catch {
+      pos = start;
+      return fail('Invalid escape in string');
+    }
+  };
+
+  const parseValue = (): StructureNode => {
+    skipWhitespace();
+    const startLine = lineAt(pos);
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const entries = new Map<string, StructureNode>();
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { kind: 'object', entries, startLine, endLine: lineAt(pos - 1) };
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') unexpected();
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') unexpected();
+        pos++;
+        entries.delete(key);
+        entries.set(key, parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== '}') unexpected();
+        pos++;
+        return { kind: 'object', entries, startLine, endLine: lineAt(pos - 1) };
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: StructureNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { kind: 'array', items, startLine, endLine: lineAt(pos - 1) };
+      }
+      while (true) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== ']') unexpected();
+        pos++;
+        return { kind: 'array', items, startLine, endLine: lineAt(pos - 1) };
+      }
+    }
+
+    if (char === '"') {
+      const value = parseString();
+      return { kind: 'value', value, startLine, endLine: lineAt(pos - 1) };
+    }
+
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(text);
+    if (number) {
+      pos += number[0].length;
+      return { kind: 'value', value: Number(number[0]), startLine, endLine: startLine };
+    }
+
+    for (const [literal, value] of LITERALS) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return { kind: 'value', value, startLine, endLine: startLine };
+      }
+    }
+    return unexpected();
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) unexpected();
+  return root;
+};
@@ -0,0 +1,188 @@
+import { PanelData } from '../types';
+
+export interface LanguageDefinition {
+    // The Prism language id, which is also the name of its Prism component.
+    id: string;
+    label: string;
+    // Lower-case title suffixes that select this language.
+    extensions: string[];
+    // Prism components the grammar builds on, loaded before it.
+    requires?: string[];
+    // Characters besides letters, digits and `_` that are part of a word, for whole-word find.
+    wordCharacters?: string;
+}
+
+export const languages: LanguageDefinition[] = [
+    { id: 'javascript', label: 'JavaScript', extensions: ['.js', '.mjs', '.cjs'], requires: ['clike'], wordCharacters: '$' },
+    { id: 'typescript', label: 'TypeScript', extensions: ['.ts', '.mts', '.cts'], requires: ['javascript'], wordCharacters: '$' },
+    { id: 'jsx', label: 'JSX', extensions: ['.jsx'], requires: ['markup', 'javascript'], wordCharacters: '$' },
+    { id: 'tsx', label: 'TSX', extensions: ['.tsx'], requires: ['jsx', 'typescript'], wordCharacters: '$' },
+    { id: 'json', label: 'JSON', extensions: ['.json'] },
+    { id: 'css', label: 'CSS', extensions: ['.css'], wordCharacters: '-' },
+    { id: 'markup', label: 'HTML / XML', extensions: ['.html', '.htm', '.xml', '.svg'], wordCharacters: '-' },
+    { id: 'markdown', label: 'Markdown', extensions: ['.md', '.markdown'], requires: ['markup'] },
+    { id: 'yaml', label: 'YAML', extensions: ['.yaml', '.yml'], wordCharacters: '-' },
+    { id: 'ini', label: 'INI', extensions: ['.ini', '.cfg', '.conf'] },
+    { id: 'python', label: 'Python', extensions: ['.py', '.pyw'] },
+    { id: 'go', label: 'Go', extensions: ['.go'], requires: ['clike'] },
+    { id: 'rust', label: 'Rust', extensions: ['.rs'] },
+    { id: 'java', label: 'Java', extensions: ['.java'], requires: ['clike'] },
+    { id: 'csharp', label: 'C#', extensions: ['.cs'], requires: ['clike'] },
+    { id: 'sql', label: 'SQL', extensions: ['.sql'] },
+    { id: 'bash', label: 'Shell', extensions: ['.sh', '.bash', '.zsh'], wordCharacters: '-' },
+    { id: 'diff', label: 'Diff', extensions: ['.diff', '.patch'] },
+];
+
+const DEFAULT_LANGUAGE = 'javascript';
+
+export const getLanguageDefinition = (id: string): LanguageDefinition | undefined => languages.find(l => l.id === id);
+
+/**
+ * Picks the Prism language for a panel from the extension in its title.
+ * @returns The language, or null if the title has no known extension.
+ */
+export const getLanguageFromTitle = (title: string): string | null => {
+    const lowerTitle = title.toLowerCase();
+    const language = languages.find(l => l.extensions.some(ext => lowerTitle.endsWith(ext)));
+    return language ? language.id : null;
+};
+
+// Names used in shebangs and modelines, by language.
+const languageAliases: Record<string, string> = {
+    js: 'javascript', javascript: 'javascript', node: 'javascript', deno: 'javascript', bun: 'javascript',
+    ts: 'typescript', typescript: 'typescript',
+    py: 'python', python: 'python', python2: 'python', python3: 'python',
+    sh: 'bash', bash: 'bash', zsh: 'bash', ksh: 'bash', dash: 'bash', shell: 'bash',
+    go: 'go', golang: 'go',
+    rs: 'rust', rust: 'rust',
+    java: 'java',
+    cs: 'csharp', csharp: 'csharp',
+    sql: 'sql', mysql: 'sql', plsql: 'sql',
+    yaml: 'yaml', yml: 'yaml',
+    md: 'markdown', markdown: 'markdown',
+    diff: 'diff', patch: 'diff',
+    html: 'markup', xml: 'markup',
+    css: 'css', json: 'json', ini: 'ini',
+};
+
+// Content clues and how strongly each points at a language.
+const languageClues: [language: string, weight: number, pattern: RegExp][] = [
+    ['diff', 4, /^(diff --git |@@ -\d+(,\d+)? \+\d+(,\d+)? @@)/m],
+    ['diff', 2, /^--- \S.*\n\+\+\+ \S/m],
+    ['markup', 3, /^\s*<(!doctype|html|\?xml|svg)\b/i],
+    ['markup', 1, /<\/[a-z][\w-]*>/i],
+    ['python', 3, /^\s*def \w+\(.*\)(\s*->\s*[^:]+)?:\s*$/m],
+    ['python', 2, /^\s*(from [\w.]+ import \w|import [\w.]+(, [\w.]+)*\s*$)/m],
+    ['python', 2, /^\s*(elif .*|except( \w.*)?|else|try|finally):\s*$/m],
+    ['python', 1, /\bself\.\w+|\bNone\b|\bTrue\b|\bFalse\b/],
+    ['go', 4, /^package \w+\s*$/m],
+    ['go', 3, /^func (\(\w+ \*?\w+\) )?\w+\(/m],
+    ['go', 1, /\w+ := /],
+    ['rust', 3, /^\s*(pub )?fn \w+(<[^>]*>)?\(/m],
+    ['rust', 2, /\blet mut \w+|^use \w+(::\w+)+;|\bimpl\b.*\{|\w+!\(/m],
+    ['java', 3, /^import java\.|System\.out\.print|^package [\w.]+;/m],
+    ['java', 1, /\bpublic (static )?(final )?(class|interface|void)\b/],
+    ['csharp', 3, /^using System(\.[\w.]+)?;|Console\.Write|\{ get; (private )?set; \}/m],
+    ['csharp', 2, /^\s*namespace [\w.]+/m],
+    ['sql', 3, /\b(create|alter|drop) table\b|\binsert into\b|\bselect\b[\s\S]+?\bfrom\b[\s\S]+?(\bwhere\b|;)/i],
+    ['sql', 1, /\bupdate \w+ set\b|\bdelete from\b|\bjoin \w+ on\b/i],
+    ['bash', 2, /^\s*(fi|done|esac)\s*$|^\s*if \[\[? .* \]\]?;? *(then)?$/m],
+    ['bash', 1, /^\s*(echo|export|source|set -[a-z]+)\b|\$\{\w+\}/m],
+    ['yaml', 2, /^[\w-]+:( [^{};]*)?$(\n^(  +|- ).*$)+/m],
+    ['yaml', 1, /^---\s*$/m],
+    ['markdown', 2, /^#{1,6} \S/m],
+    ['markdown', 1, /^\s*[-*] \S|\[[^\]]+\]\([^)]+\)|^```/m],
+    ['typescript', 2, /\binterface \w+|\btype \w+ = |: (string|number|boolean)\b/],
+    ['javascript', 2, /\b(const|let) \w+ = |=> |\bfunction\b|console\.log/],
+    ['css', 3, /^[^{}\n]+\{\s*\n(\s*[\w-]+:\s*[^;]+;\s*\n)+\s*\}/m],
+];
+
+// Only the start of a text is examined, and its end for a modeline; that is where the clues
+// are, and it keeps detection cheap.
+const DETECTION_SAMPLE_LENGTH = 10000;
+const DETECTION_TAIL_LENGTH = 1000;
+const MODELINE_LINES = 5;
+
+// The parts of a text detection looks at.
+const getDetectionSample = (text: string) => ({
+    sample: text.slice(0, DETECTION_SAMPLE_LENGTH),
+    tail: text.length > DETECTION_SAMPLE_LENGTH ? text.slice(-DETECTION_TAIL_LENGTH) : '',
+});
+
+/**
+ * Guesses the language of a text from a shebang, an editor modeline (vim or Emacs)
+ * or, failing those, keyword heuristics.
+ * @returns The language, or null if nothing points clearly at one.
+ */
+export const detectLanguage = (text: string): string | null => {
+    const { sample, tail } = getDetectionSample(text);
+    const shebang = /^#!\s*\S*?(?:\/env\s+(?:-\S+\s+)*)?([\w.+-]+)(?:\s|$)/.exec(sample);
+    if (shebang) {
+        const name = shebang[1].split('/').pop()!.replace(/[\d.]+$/, '');
+        if (languageAliases[name]) return languageAliases[name];
+    }
+
+    const lastLines = (tail || sample).split('\n').slice(-MODELINE_LINES);
+    const edges = [...sample.split('\n', MODELINE_LINES), ...lastLines].join('\n');
+    const modeline = /\bvim?:.*\b(?:ft|filetype|syntax)=([\w#+-]+)|-\*-.*?(?:mode:\s*)?([\w#+-]+)\s*(?:;.*)?-\*-/.exec(edges);
+    const modelineName = modeline && (modeline[1] ?? modeline[2]).toLowerCase();
+    if (modelineName && languageAliases[modelineName]) return languageAliases[modelineName];
+
+    const trimmed = sample.trim();
+    if (/^[[{]/.test(trimmed) && trimmed.length === text.trim().length) {
+        try {
+            JSON.parse(trimmed);
+            return 'json';
+        } catch {
+            // Not JSON after all; fall through to the heuristics.
+        }
+    }
+
+    const scores = new Map<string, number>();
+    for (const [language, weight, pattern] of languageClues) {
+        if (pattern.test(sample)) scores.set(language, (scores.get(language) ?? 0) + weight);
+    }
+    let best: string | null = null;
+    let bestScore = 1;
+    scores.forEach((score, language) => {
+        if (score > bestScore) {
+            best = language;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+// The last detection for each panel, reused while the parts of its text detection reads are unchanged,
+// so typing in a panel does not redo it on every keystroke.
+const detectedLanguages = new Map<string, { sample: string; tail: string; language: string | null }>();
+const MAX_DETECTED_PANELS = 16;
+
+const detectPanelLanguage = (panel: PanelData): string | null => {
+    const { sample, tail } = getDetectionSample(panel.text);
+    const cached = detectedLanguages.get(panel.id);
+    if (cached && cached.sample === sample && cached.tail === tail) return cached.language;
+    const language = detectLanguage(panel.text);
+    detectedLanguages.delete(panel.id);
+    detectedLanguages.set(panel.id, { sample, tail, language });
+    if (detectedLanguages.size > MAX_DETECTED_PANELS) detectedLanguages.delete(detectedLanguages.keys().next().value!);
+    return language;
+};
+
+/**
+ * The language a panel is shown in: the one picked in its header, else the one its
+ * title's extension implies, else the one its text looks like.
+ */
+export const getPanelLanguage = (panel: PanelData): string => (
+    panel.language ?? getLanguageFromTitle(panel.title) ?? detectPanelLanguage(panel) ?? DEFAULT_LANGUAGE
+);
+
+/**
+ * The regular expression source for one word character of a language, used to decide
+ * what a whole word is. Letters and digits of any script count; the pattern needs the
+ * `u` flag, which createSearchRegExp sets for whole-word searches.
+ */
+export const getWordCharacterPattern = (language: string): string => {
+    const extra = getLanguageDefinition(language)?.wordCharacters ?? '';
+    return `[\\p{L}\\p{N}_${extra.replace(/[\\\]^-]/g, '\\$&')}]`;
+};
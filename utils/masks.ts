@@ -0,0 +1,60 @@
+import { DiffSegment, IgnoreRule } from '../types';
+import { createSearchRegExp } from './regex';
+
+// Line keys mark masked regions with an escape character. The character is doubled where the
+// text itself contains it, so a mask never equals any text.
+const ESCAPE = '\u0001';
+export const MASK = `${ESCAPE}*`;
+
+// Doubles the escape character in text that goes into a line key next to masks.
+export const escapeMaskText = (text: string): string =>
+  text.includes(ESCAPE) ? text.replace(/\u0001/g, ESCAPE + ESCAPE) : text;
+
+const compiled = new WeakMap<IgnoreRule[], RegExp[]>();
+
+/**
+ * Compiles the enabled, valid ignore rules. The result is cached per rules array, so
+ * calling this for every line of a diff is cheap.
+ */
+export const compileIgnoreRules = (rules: IgnoreRule[]): RegExp[] => {
+  let regexes = compiled.get(rules);
+  if (!regexes) {
+    regexes = rules.filter(rule => rule.enabled).flatMap(rule => createSearchRegExp(rule.pattern, rule) ?? []);
+    compiled.set(rules, regexes);
+  }
+  return regexes;
+};
+
+/**
+ * Finds the parts of a line matched by any of the given patterns.
+ * @returns Sorted, non-overlapping ranges; touching and overlapping matches are merged.
+ */
+export const findMaskedRanges = (line: string, regexes: RegExp[]): DiffSegment[] => {
+  if (regexes.length === 0) return [];
+  const ranges: DiffSegment[] = [];
+  for (const regex of regexes) {
+    for (const match of line.matchAll(regex)) {
+      if (match[0].length > 0) ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: DiffSegment[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+};
+
+// Replaces each masked range of a line with a single MASK.
+export const maskLine = (line: string, ranges: DiffSegment[]): string => {
+  let result = '';
+  let position = 0;
+  for (const range of ranges) {
+    result += escapeMaskText(line.slice(position, range.start)) + MASK;
+    position = range.end;
+  }
+  return result + escapeMaskText(line.slice(position));
+};
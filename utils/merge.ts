@@ -0,0 +1,161 @@
+import { ConflictResolution, DiffLine, DiffType, MergeChunk } from '../types';
+
+// A run of changed lines from one side's diff, in base line coordinates.
+interface SideChange {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+interface SideDiff {
+  changes: SideChange[];
+  // The side's text for every base line it left unchanged.
+  unchangedText: Map<number, string>;
+}
+
+const collectChanges = (diff: DiffLine[], side: SideChange['side']): SideDiff => {
+  const changes: SideChange[] = [];
+  const unchangedText = new Map<number, string>();
+  let baseIndex = 0;
+  let current: SideChange | null = null;
+
+  for (const line of diff) {
+    if (line.type === DiffType.Unchanged) {
+      current = null;
+      unchangedText.set(baseIndex++, line.text);
+      continue;
+    }
+    if (!current) {
+      current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      changes.push(current);
+    }
+    if (line.type === DiffType.Removed) {
+      current.baseEnd = ++baseIndex;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  return { changes, unchangedText };
+};
+
+// Rebuilds what one side has in place of the base lines [start, end).
+const sideLines = (side: SideDiff, group: SideChange[], start: number, end: number): string[] => {
+  const lines: string[] = [];
+  let baseIndex = start;
+  for (const change of group) {
+    while (baseIndex < change.baseStart) lines.push(side.unchangedText.get(baseIndex++)!);
+    lines.push(...change.lines);
+    baseIndex = change.baseEnd;
+  }
+  while (baseIndex < end) lines.push(side.unchangedText.get(baseIndex++)!);
+  return lines;
+};
+
+/**
+ * Performs a three-way merge from the diffs of the common ancestor against
+ * "ours" and against "theirs". Changes made by only one side are applied, identical
+ * changes made by both sides are applied once, and changes to overlapping or
+ * adjacent base lines that differ become conflicts (as in git).
+ * @param baseText The common ancestor's text.
+ * @param oursDiff The raw diff from the ancestor to "ours" (see calculateRawDiff).
+ * @param theirsDiff The raw diff from the ancestor to "theirs".
+ * @returns The merge result as an ordered list of chunks.
+ */
+export const computeThreeWayMerge = (baseText: string, oursDiff: DiffLine[], theirsDiff: DiffLine[]): MergeChunk[] => {
+  const baseLines = baseText.split('\n');
+  const ours = collectChanges(oursDiff, 'ours');
+  const theirs = collectChanges(theirsDiff, 'theirs');
+  const changes = [...ours.changes, ...theirs.changes]
+    .sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (start: number, end: number) => {
+    if (start >= end) return;
+    const lines = Array.from({ length: end - start }, (_, k) => ours.unchangedText.get(start + k) ?? baseLines[start + k]);
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === 'stable') last.lines.push(...lines);
+    else chunks.push({ kind: 'stable', lines });
+  };
+
+  let position = 0;
+  let i = 0;
+  while (i < changes.length) {
+    const group = [changes[i]];
+    const start = changes[i].baseStart;
+    let end = changes[i].baseEnd;
+    i++;
+    while (i < changes.length && changes[i].baseStart <= end) {
+      end = Math.max(end, changes[i].baseEnd);
+      group.push(changes[i]);
+      i++;
+    }
+
+    pushStable(position, start);
+    position = end;
+
+    const oursGroup = group.filter(c => c.side === 'ours');
+    const theirsGroup = group.filter(c => c.side === 'theirs');
+    const oursLines = sideLines(ours, oursGroup, start, end);
+    const theirsLines = sideLines(theirs, theirsGroup, start, end);
+
+    if (theirsGroup.length === 0) {
+      chunks.push({ kind: 'resolved', source: 'ours', lines: oursLines });
+    } else if (oursGroup.length === 0) {
+      chunks.push({ kind: 'resolved', source: 'theirs', lines: theirsLines });
+    } else if (oursLines.join('\n') === theirsLines.join('\n')) {
+      chunks.push({ kind: 'resolved', source: 'both', lines: oursLines });
+    } else {
+      const base = baseLines.slice(start, end);
+      chunks.push({
+        kind: 'conflict',
+        key: JSON.stringify([start, base, oursLines, theirsLines]),
+        base,
+        ours: oursLines,
+        theirs: theirsLines,
+      });
+    }
+  }
+  pushStable(position, baseLines.length);
+
+  return chunks;
+};
+
+export const resolveConflict = (
+  chunk: Extract<MergeChunk, { kind: 'conflict' }>,
+  resolution: ConflictResolution
+): string[] => {
+  switch (resolution) {
+    case 'ours':
+      return chunk.ours;
+    case 'theirs':
+      return chunk.theirs;
+    case 'both':
+      return [...chunk.ours, ...chunk.theirs];
+  }
+};
+
+/**
+ * Renders a merge result as text. Resolved conflicts use their chosen lines;
+ * unresolved ones are written with git-style conflict markers.
+ */
+export const renderMergedText = (
+  chunks: MergeChunk[],
+  resolutions: Map<string, ConflictResolution>,
+  labels: { ours: string; theirs: string }
+): string => {
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.kind !== 'conflict') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const resolution = resolutions.get(chunk.key);
+    if (resolution) {
+      lines.push(...resolveConflict(chunk, resolution));
+    } else {
+      lines.push(`<<<<<<< ${labels.ours}`, ...chunk.ours, '=======', ...chunk.theirs, `>>>>>>> ${labels.theirs}`);
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,72 @@
+import { DiffLine, DiffType } from '../types';
+
+// Blocks shorter than this (counting non-blank lines) are not reported as moves;
+// short runs like a lone "}" recur everywhere and would produce false matches.
+const MIN_MOVE_LINES = 3;
+
+// Removed lines whose text occurs more often than this are not used to start a move.
+const MAX_CANDIDATES = 64;
+
+/**
+ * Finds runs of added lines that also appear, in the same order, as a run of
+ * removed lines elsewhere in the diff, and links the two ends as a moved block.
+ * @param diff The line diff to annotate. Lines are replaced, not mutated.
+ * @param keys The key each diff line was matched by (its normalized text, or its tokens
+ * in the code diff), so moves use the same line matching as the diff.
+ * @returns A new diff with `move` set on both ends of each moved block.
+ */
+export const detectMovedBlocks = (diff: DiffLine[], keys: string[]): DiffLine[] => {
+  const result = [...diff];
+  const isAvailable = (index: number, type: DiffType) =>
+    index < result.length && result[index].type === type && !result[index].ignored && !result[index].move;
+
+  const removedByKey = new Map<string, number[]>();
+  diff.forEach((line, i) => {
+    if (line.type !== DiffType.Removed || line.ignored) return;
+    const list = removedByKey.get(keys[i]);
+    if (list) list.push(i);
+    else removedByKey.set(keys[i], [i]);
+  });
+
+  let nextId = 0;
+  let i = 0;
+  while (i < result.length) {
+    const candidates = isAvailable(i, DiffType.Added) ? removedByKey.get(keys[i]) : undefined;
+    if (!candidates || candidates.length > MAX_CANDIDATES) {
+      i++;
+      continue;
+    }
+
+    let bestStart = -1;
+    let bestLength = 0;
+    for (const start of candidates) {
+      let length = 0;
+      while (
+        isAvailable(i + length, DiffType.Added) &&
+        isAvailable(start + length, DiffType.Removed) &&
+        keys[i + length] === keys[start + length]
+      ) {
+        length++;
+      }
+      if (length > bestLength) {
+        bestStart = start;
+        bestLength = length;
+      }
+    }
+
+    const substantialLines = keys.slice(i, i + bestLength).filter(key => key.trim() !== '').length;
+    if (substantialLines < MIN_MOVE_LINES) {
+      i++;
+      continue;
+    }
+
+    const id = nextId++;
+    for (let k = 0; k < bestLength; k++) {
+      result[bestStart + k] = { ...result[bestStart + k], move: { id, role: 'source', counterpart: i } };
+      result[i + k] = { ...result[i + k], move: { id, role: 'destination', counterpart: bestStart } };
+    }
+    i += bestLength;
+  }
+
+  return result;
+};
@@ -0,0 +1,149 @@
+import { LineMatch } from '../types';
+
+/**
+ * Maps every distinct line to a small integer so the diff loops compare numbers
+ * instead of strings.
+ */
+const internLines = (baseLines: string[], newLines: string[]): [Int32Array, Int32Array] => {
+  const ids = new Map<string, number>();
+  const intern = (lines: string[]) => {
+    const result = new Int32Array(lines.length);
+    lines.forEach((line, i) => {
+      let id = ids.get(line);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(line, id);
+      }
+      result[i] = id;
+    });
+    return result;
+  };
+  return [intern(baseLines), intern(newLines)];
+};
+
+/**
+ * Keeps only the positions whose value also occurs on the other side. Lines that
+ * exist on one side only can never be part of the LCS, so dropping them up front
+ * keeps the edit distance (and therefore the running time) small for unrelated inputs.
+ */
+const keepShared = (values: Int32Array, other: Int32Array): number[] => {
+  const present = new Set<number>(other);
+  const kept: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (present.has(values[i])) kept.push(i);
+  }
+  return kept;
+};
+
+/**
+ * Finds the longest common subsequence of two integer sequences with Myers'
+ * O(ND) algorithm, using the linear-space "middle snake" refinement.
+ * Returns the matched index pairs in ascending order.
+ */
+const myersMatches = (a: Int32Array, b: Int32Array): LineMatch[] => {
+  const matches: LineMatch[] = [];
+  const maxD = Math.ceil((a.length + b.length) / 2) + 1;
+  const offset = maxD + 1;
+  const forward = new Int32Array(2 * offset + 2);
+  const backward = new Int32Array(2 * offset + 2);
+
+  // Explicit stack of [aLo, aHi, bLo, bHi] ranges instead of recursion, so deep
+  // inputs cannot overflow the call stack. Matches are sorted at the end.
+  const stack: number[][] = [[0, a.length, 0, b.length]];
+
+  while (stack.length > 0) {
+    let [aLo, aHi, bLo, bHi] = stack.pop()!;
+
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      matches.push({ baseIndex: aLo++, newIndex: bLo++ });
+    }
+    while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+      matches.push({ baseIndex: --aHi, newIndex: --bHi });
+    }
+
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    if (n === 0 || m === 0) continue;
+
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    const limit = Math.ceil((n + m) / 2);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+
+    let snake: [number, number, number, number] | null = null;
+
+    for (let d = 0; d <= limit && !snake; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+        let y = x - k;
+        const startX = x;
+        const startY = y;
+        while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+          x++;
+          y++;
+        }
+        forward[offset + k] = x;
+        const reverseK = delta - k;
+        if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+          snake = [startX, startY, x, y];
+          break;
+        }
+      }
+      if (snake) break;
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+        let y = x - k;
+        const startX = x;
+        const startY = y;
+        while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+          x++;
+          y++;
+        }
+        backward[offset + k] = x;
+        const forwardK = delta - k;
+        if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+          snake = [n - x, m - y, n - startX, m - startY];
+          break;
+        }
+      }
+    }
+
+    if (!snake) continue;
+    const [startX, startY, endX, endY] = snake;
+    for (let i = 0; i < endX - startX; i++) {
+      matches.push({ baseIndex: aLo + startX + i, newIndex: bLo + startY + i });
+    }
+    stack.push([aLo, aLo + startX, bLo, bLo + startY]);
+    stack.push([aLo + endX, aHi, bLo + endY, bHi]);
+  }
+
+  return matches.sort((x, y) => x.baseIndex - y.baseIndex);
+};
+
+/**
+ * Computes the matching lines between two line arrays using Myers' diff.
+ * Runs in O((N+M)·D) time and O(N+M) space.
+ * @param baseLines The lines of the original text.
+ * @param newLines The lines of the changed text.
+ * @returns The matched line index pairs, in ascending order on both sides.
+ */
+export const myersDiff = (baseLines: string[], newLines: string[]): LineMatch[] => {
+  const [baseIds, newIds] = internLines(baseLines, newLines);
+  const baseKept = keepShared(baseIds, newIds);
+  const newKept = keepShared(newIds, baseIds);
+
+  const matches = myersMatches(
+    Int32Array.from(baseKept, i => baseIds[i]),
+    Int32Array.from(newKept, i => newIds[i]),
+  );
+  return matches.map(({ baseIndex, newIndex }) => ({
+    baseIndex: baseKept[baseIndex],
+    newIndex: newKept[newIndex],
+  }));
+};
@@ -0,0 +1,51 @@
+import { CodeToken, DiffOptions } from '../types';
+import { compileIgnoreRules, escapeMaskText, findMaskedRanges, MASK, maskLine } from './masks';
+
+/**
+ * Returns the key a line is matched by under the given options. Lines with equal
+ * keys are considered unchanged; the original text is still what gets displayed.
+ * Text matching an ignore rule is masked first, so it never makes lines differ.
+ */
+export const normalizeLine = (line: string, options: DiffOptions): string => {
+  let key = maskLine(line, findMaskedRanges(line, compileIgnoreRules(options.ignoreRules)));
+  if (options.ignoreLineEndings) key = key.replace(/\r$/, '');
+  if (options.ignoreWhitespace) key = key.replace(/\s+/g, '');
+  if (options.ignoreCase) key = key.toLowerCase();
+  return key;
+};
+
+/**
+ * Returns the tokens of a line that count under the given options: comments are
+ * dropped when ignoring comments, whitespace between tokens when ignoring whitespace.
+ * Whitespace inside a token, such as a string literal, always counts.
+ */
+export const significantTokens = (tokens: CodeToken[], options: DiffOptions): CodeToken[] =>
+  tokens.filter(token =>
+    !(options.ignoreComments && token.kind === 'comment') && !(options.ignoreWhitespace && token.kind === 'whitespace'));
+
+/**
+ * The token-aware counterpart of `normalizeLine`: the key is the line's significant
+ * tokens, kept apart by a separator so that `return x` and `returnx` stay different.
+ * A masked region counts as one token, however many tokens it covers.
+ */
+export const normalizeTokens = (line: string, tokens: CodeToken[], options: DiffOptions): string => {
+  const masked = findMaskedRanges(line, compileIgnoreRules(options.ignoreRules));
+  const pieces: string[] = [];
+  let range = 0;
+  for (const token of significantTokens(tokens, options)) {
+    let position = token.start;
+    for (; range < masked.length && masked[range].start < token.end; range++) {
+      // Ranges that only covered dropped tokens leave no trace.
+      if (masked[range].end <= token.start) continue;
+      if (masked[range].start > position) pieces.push(escapeMaskText(line.slice(position, masked[range].start)));
+      if (pieces[pieces.length - 1] !== MASK) pieces.push(MASK);
+      position = Math.max(position, masked[range].end);
+      // A range running past this token also covers the start of the next one.
+      if (masked[range].end > token.end) break;
+    }
+    if (position < token.end) pieces.push(escapeMaskText(line.slice(position, token.end)));
+  }
+  const parts = pieces.map(text => (options.ignoreLineEndings ? text.replace(/\r$/, '') : text)).filter(text => text !== '');
+  const key = parts.join('\u0000');
+  return options.ignoreCase ? key.toLowerCase() : key;
+};
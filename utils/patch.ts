@@ -0,0 +1,167 @@
+import { DiffType, FilePatch, HunkApplyResult, PatchHunk } from '../types';
+
+// Like GNU patch, up to this many context lines at either end of a hunk may be ignored.
+const MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Strips the timestamp some tools append after a tab, and git's a/ and b/ prefixes.
+const cleanPath = (path: string): string => {
+  const name = path.split('\t')[0].trim();
+  return name === '/dev/null' ? name : name.replace(/^[ab]\//, '');
+};
+
+/**
+ * Parses unified diff text, as written by `diff -u` or `git diff`, into per-file patches.
+ * Anything outside file headers and hunks (commit messages, `diff --git` and `index`
+ * lines) is skipped.
+ * @throws If a hunk is cut short or the text contains no hunks at all.
+ */
+export const parsePatch = (patchText: string): FilePatch[] => {
+  const lines = patchText.split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i].replace(/\r$/, '');
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = { oldPath: cleanPath(line.slice(4)), newPath: cleanPath(lines[i + 1].replace(/\r$/, '').slice(4)), hunks: [] };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (!header) {
+      i++;
+      continue;
+    }
+    if (!current) {
+      current = { oldPath: '', newPath: '', hunks: [] };
+      files.push(current);
+    }
+    const hunk: PatchHunk = {
+      oldStart: Number(header[1]),
+      oldCount: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newCount: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    const headerLine = i + 1;
+    i++;
+
+    let oldSeen = 0;
+    let newSeen = 0;
+    while (oldSeen < hunk.oldCount || newSeen < hunk.newCount) {
+      if (i >= lines.length) {
+        throw new Error(`Hunk at line ${headerLine} of the patch ends early: expected ${hunk.oldCount} original and ${hunk.newCount} new lines.`);
+      }
+      const body = lines[i];
+      const marker = body[0];
+      // Some editors strip the single space from empty context lines.
+      if (marker === ' ' || body === '' || body === '\r') {
+        hunk.lines.push({ type: DiffType.Unchanged, text: body.slice(1) });
+        oldSeen++;
+        newSeen++;
+      } else if (marker === '-') {
+        hunk.lines.push({ type: DiffType.Removed, text: body.slice(1) });
+        oldSeen++;
+      } else if (marker === '+') {
+        hunk.lines.push({ type: DiffType.Added, text: body.slice(1) });
+        newSeen++;
+      } else if (marker !== '\\') {
+        throw new Error(`Unexpected line ${i + 1} in the hunk at line ${headerLine} of the patch: "${body}".`);
+      }
+      i++;
+      if (lines[i]?.startsWith('\\') && hunk.lines.length > 0) {
+        hunk.lines[hunk.lines.length - 1].noEol = true;
+        i++;
+      }
+    }
+    current.hunks.push(hunk);
+  }
+
+  const patches = files.filter(file => file.hunks.length > 0);
+  if (patches.length === 0) {
+    throw new Error('No hunks found. Expected unified diff text with "@@ -a,b +c,d @@" headers.');
+  }
+  return patches;
+};
+
+const matchesAt = (fileLines: string[], pattern: string[], position: number): boolean =>
+  position >= 0 && position + pattern.length <= fileLines.length && pattern.every((line, k) => fileLines[position + k] === line);
+
+// Number of context lines at the start (or end) of a hunk that fuzz may drop.
+const leadingContext = (hunk: PatchHunk, fromEnd: boolean): number => {
+  const lines = fromEnd ? [...hunk.lines].reverse() : hunk.lines;
+  const index = lines.findIndex(line => line.type !== DiffType.Unchanged);
+  return index === -1 ? lines.length : index;
+};
+
+/**
+ * Applies a file patch to text the way `patch` does. Each hunk is looked for at its
+ * expected position (shifted by how far earlier hunks moved), then at growing offsets
+ * in both directions, and finally with up to two context lines at each end ignored.
+ * Hunks that cannot be placed are skipped and reported.
+ * @param text The original file content.
+ * @param patch The patch for that file.
+ * @returns The patched text and one result per hunk.
+ */
+export const applyPatch = (text: string, patch: FilePatch): { text: string; results: HunkApplyResult[] } => {
+  let endsWithNewline = text === '' || text.endsWith('\n');
+  const lines = text === '' ? [] : text.split('\n');
+  if (text.endsWith('\n')) lines.pop();
+
+  const results: HunkApplyResult[] = [];
+  // Lines added minus lines removed by the hunks applied so far, plus the offset the last one needed.
+  let drift = 0;
+  // Hunks may not be placed over the output of an earlier hunk.
+  let lowerBound = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    const expected = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+    const result: HunkApplyResult = {
+      hunk: index + 1,
+      oldStart: hunk.oldStart,
+      oldEnd: hunk.oldStart + Math.max(hunk.oldCount, 1) - 1,
+      applied: false,
+      offset: 0,
+      fuzz: 0,
+    };
+
+    const head = leadingContext(hunk, false);
+    const tail = leadingContext(hunk, true);
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !result.applied; fuzz++) {
+      const skipHead = Math.min(fuzz, head);
+      const skipTail = Math.min(fuzz, tail);
+      if (fuzz > 0 && skipHead + skipTail === 0) break;
+      const body = hunk.lines.slice(skipHead, hunk.lines.length - skipTail);
+      if (body.length === 0) break;
+      const pattern = body.filter(line => line.type !== DiffType.Added).map(line => line.text);
+      const replacement = body.filter(line => line.type !== DiffType.Removed).map(line => line.text);
+      const target = expected + skipHead;
+
+      for (let distance = 0; distance <= lines.length; distance++) {
+        const position = [target - distance, target + distance].find(p => p >= lowerBound && matchesAt(lines, pattern, p));
+        if (position === undefined) continue;
+        lines.splice(position, pattern.length, ...replacement);
+        result.applied = true;
+        result.offset = position - target;
+        result.fuzz = Math.max(skipHead, skipTail);
+        drift += replacement.length - pattern.length + result.offset;
+        lowerBound = position + replacement.length;
+
+        const oldNoEol = hunk.lines.some(line => line.type !== DiffType.Added && line.noEol);
+        const newNoEol = hunk.lines.some(line => line.type !== DiffType.Removed && line.noEol);
+        if (newNoEol) endsWithNewline = false;
+        else if (oldNoEol) endsWithNewline = true;
+        break;
+      }
+    }
+    results.push(result);
+  });
+
+  const patched = lines.join('\n');
+  return { text: endsWithNewline && lines.length > 0 ? patched + '\n' : patched, results };
+};
@@ -0,0 +1,93 @@
+import { LineMatch } from '../types';
+import { myersDiff } from './myers';
+
+/**
+ * Finds the lines that occur exactly once in both ranges and returns the longest
+ * run of them that appears in the same order on both sides (via patience sorting).
+ */
+const findUniqueAnchors = (
+  baseLines: string[], aLo: number, aHi: number,
+  newLines: string[], bLo: number, bHi: number
+): LineMatch[] => {
+  const occurrences = new Map<string, { baseCount: number; newCount: number; baseIndex: number; newIndex: number }>();
+  for (let i = aLo; i < aHi; i++) {
+    const entry = occurrences.get(baseLines[i]);
+    if (entry) entry.baseCount++;
+    else occurrences.set(baseLines[i], { baseCount: 1, newCount: 0, baseIndex: i, newIndex: -1 });
+  }
+  for (let j = bLo; j < bHi; j++) {
+    const entry = occurrences.get(newLines[j]);
+    if (!entry) continue;
+    entry.newCount++;
+    entry.newIndex = j;
+  }
+
+  const candidates: LineMatch[] = [];
+  occurrences.forEach(({ baseCount, newCount, baseIndex, newIndex }) => {
+    if (baseCount === 1 && newCount === 1) candidates.push({ baseIndex, newIndex });
+  });
+  candidates.sort((x, y) => x.baseIndex - y.baseIndex);
+
+  // Longest increasing subsequence of newIndex, keeping back pointers to rebuild it.
+  const pileTops: number[] = [];
+  const previous: number[] = new Array(candidates.length).fill(-1);
+  candidates.forEach((candidate, c) => {
+    let lo = 0;
+    let hi = pileTops.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (candidates[pileTops[mid]].newIndex < candidate.newIndex) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[c] = lo > 0 ? pileTops[lo - 1] : -1;
+    pileTops[lo] = c;
+  });
+
+  const anchors: LineMatch[] = [];
+  for (let c = pileTops.length > 0 ? pileTops[pileTops.length - 1] : -1; c !== -1; c = previous[c]) {
+    anchors.push(candidates[c]);
+  }
+  return anchors.reverse();
+};
+
+/**
+ * Computes the matching lines between two line arrays using patience diff: lines
+ * that are unique on both sides are matched first and split the problem into
+ * smaller ranges. Ranges without unique lines fall back to Myers.
+ * @returns The matched line index pairs, in ascending order on both sides.
+ */
+export const patienceDiff = (baseLines: string[], newLines: string[]): LineMatch[] => {
+  const matches: LineMatch[] = [];
+  const stack: number[][] = [[0, baseLines.length, 0, newLines.length]];
+
+  while (stack.length > 0) {
+    let [aLo, aHi, bLo, bHi] = stack.pop()!;
+
+    while (aLo < aHi && bLo < bHi && baseLines[aLo] === newLines[bLo]) {
+      matches.push({ baseIndex: aLo++, newIndex: bLo++ });
+    }
+    while (aLo < aHi && bLo < bHi && baseLines[aHi - 1] === newLines[bHi - 1]) {
+      matches.push({ baseIndex: --aHi, newIndex: --bHi });
+    }
+    if (aLo === aHi || bLo === bHi) continue;
+
+    const anchors = findUniqueAnchors(baseLines, aLo, aHi, newLines, bLo, bHi);
+    if (anchors.length === 0) {
+      myersDiff(baseLines.slice(aLo, aHi), newLines.slice(bLo, bHi))
+        .forEach(m => matches.push({ baseIndex: aLo + m.baseIndex, newIndex: bLo + m.newIndex }));
+      continue;
+    }
+
+    let prevBase = aLo;
+    let prevNew = bLo;
+    for (const anchor of anchors) {
+      stack.push([prevBase, anchor.baseIndex, prevNew, anchor.newIndex]);
+      matches.push(anchor);
+      prevBase = anchor.baseIndex + 1;
+      prevNew = anchor.newIndex + 1;
+    }
+    stack.push([prevBase, aHi, prevNew, bHi]);
+  }
+
+  return matches.sort((x, y) => x.baseIndex - y.baseIndex);
+};
@@ -1,4 +1,59 @@
+import { FindOptions } from '../types';
+
 // Escapes special characters in a string for use in a regular expression.
 export function escapeRegExp(string: string): string {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
 }
+
+// Builds the global regular expression for a find query or ignore rule.
+// `wordCharacter` is the pattern for one word character, for whole-word matching; whole-word
+// expressions are compiled with the `u` flag so that it may use Unicode property classes.
+// Returns null if the query is empty or not a valid regular expression.
+export function createSearchRegExp(query: string, options: FindOptions, wordCharacter: string = '\\w'): RegExp | null {
+    if (!query) return null;
+    let source = options.useRegex ? query : escapeRegExp(query);
+    if (options.wholeWord) {
+        source = `(?<!${wordCharacter})(?:${source})(?!${wordCharacter})`;
+    }
+    try {
+        return new RegExp(source, (options.caseSensitive ? 'g' : 'gi') + (options.wholeWord ? 'u' : ''));
+    } catch {
+        return null;
+    }
+}
+
+// Expands `$1`, `$<name>`, `$&`, `` $` ``, `$'` and `$$` in a replacement for one match,
+// the way String.prototype.replace does.
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+    return template.replace(/\$([$&`']|\d\d?|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+        if (symbol === '$') return '$';
+        if (symbol === '&') return match[0];
+        if (symbol === '`') return match.input.slice(0, match.index);
+        if (symbol === "'") return match.input.slice(match.index + match[0].length);
+        if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+        const groupCount = match.length - 1;
+        const twoDigit = Number(symbol);
+        if (symbol.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) return match[twoDigit] ?? '';
+        const oneDigit = Number(symbol[0]);
+        if (oneDigit >= 1 && oneDigit <= groupCount) return (match[oneDigit] ?? '') + symbol.slice(1);
+        return token;
+    });
+}
+
+// Sticky copies of search expressions, which match only where they are told to.
+const stickyCopies = new WeakMap<RegExp, RegExp>();
+
+// Works out what the match of `regex` at `start` in `text` is replaced with. Regex
+// searches expand capture group references; plain searches insert the replacement as is.
+// Returns null if the regex no longer matches there.
+export function getReplacement(text: string, start: number, regex: RegExp, template: string, useRegex: boolean): string | null {
+    let sticky = stickyCopies.get(regex);
+    if (!sticky) {
+        sticky = new RegExp(regex.source, regex.flags.replace('g', '') + 'y');
+        stickyCopies.set(regex, sticky);
+    }
+    sticky.lastIndex = start;
+    const match = sticky.exec(text);
+    if (!match) return null;
+    return useRegex ? expandReplacement(template, match) : template;
+}
@@ -0,0 +1,145 @@
+import { DiffLine, DiffType } from '../types';
+import { DEFAULT_CONTEXT_LINES, groupIntoHunks } from './hunks';
+
+export interface DiffCounts {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Counts the lines of a diff by type, leaving out lines the diff options say to disregard.
+export const countDiffLines = (diff: DiffLine[]): DiffCounts => {
+  const counts: DiffCounts = { added: 0, removed: 0, unchanged: 0 };
+  for (const line of diff) {
+    if (line.ignored) continue;
+    if (line.type === DiffType.Added) counts.added++;
+    else if (line.type === DiffType.Removed) counts.removed++;
+    else counts.unchanged++;
+  }
+  return counts;
+};
+
+/**
+ * The share of lines the two sides have in common, as a percentage of all lines
+ * on both sides (100 for identical texts, 0 for texts with no line in common).
+ */
+export const similarityPercent = ({ added, removed, unchanged }: DiffCounts): number => {
+  const total = added + removed + 2 * unchanged;
+  return total === 0 ? 100 : (200 * unchanged) / total;
+};
+
+// A run of changed lines, with 1-based line numbers as in a unified diff hunk.
+export interface ChangeBlock {
+  baseStart: number;
+  baseCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+export interface DiffStats {
+  hunks: number;
+  // Lines only in the compared text, only in the base, and lines replaced in place.
+  // A block that removes 3 lines and adds 5 counts as 3 modified and 2 added.
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+  unchanged: number;
+  similarity: number;
+  largestBlock: ChangeBlock | null;
+  blocks: ChangeBlock[];
+}
+
+// The statistics of one comparison, labelled with the panels it compares.
+export interface PanelStats {
+  title: string;
+  baseTitle: string;
+  stats: DiffStats;
+}
+
+/**
+ * Computes the statistics of one line diff. Lines the diff options say to disregard
+ * are left out of every count; moved lines are counted apart from other changes.
+ * @param contextLines The context used to count hunks, as in an exported patch.
+ */
+export const computeDiffStats = (diff: DiffLine[], contextLines = DEFAULT_CONTEXT_LINES): DiffStats => {
+  const isCounted = (line: DiffLine) => line.type !== DiffType.Unchanged && !line.ignored;
+  const stats: DiffStats = {
+    hunks: groupIntoHunks(diff.filter(line => !line.ignored), contextLines).length,
+    added: 0,
+    removed: 0,
+    modified: 0,
+    moved: 0,
+    unchanged: diff.filter(line => line.type === DiffType.Unchanged).length,
+    similarity: similarityPercent(countDiffLines(diff)),
+    largestBlock: null,
+    blocks: [],
+  };
+
+  for (const hunk of groupIntoHunks(diff, 0)) {
+    const lines = diff.slice(hunk.start, hunk.end);
+    if (!lines.some(isCounted)) continue;
+    const added = lines.filter(line => line.type === DiffType.Added && !line.ignored && !line.move).length;
+    const removed = lines.filter(line => line.type === DiffType.Removed && !line.ignored && !line.move).length;
+    const modified = Math.min(added, removed);
+    stats.added += added - modified;
+    stats.removed += removed - modified;
+    stats.modified += modified;
+    stats.moved += lines.filter(line => line.move?.role === 'destination').length;
+
+    const { baseStart, baseCount, newStart, newCount } = hunk;
+    const block = { baseStart, baseCount, newStart, newCount };
+    stats.blocks.push(block);
+    if (!stats.largestBlock || baseCount + newCount > stats.largestBlock.baseCount + stats.largestBlock.newCount) {
+      stats.largestBlock = block;
+    }
+  }
+  return stats;
+};
+
+// "L4", "L4–9", or "after L3" for a side of a block that has no lines.
+export const formatLineRange = (start: number, count: number): string => {
+  if (count === 0) return `after L${start}`;
+  return count === 1 ? `L${start}` : `L${start}–${start + count - 1}`;
+};
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+/**
+ * Renders statistics as Markdown, e.g. for a pull request description: a table with
+ * one row per comparison, then the changed line ranges of each.
+ */
+export const formatStatsMarkdown = (panelStats: PanelStats[]): string => {
+  const lines = [
+    '## Diff statistics',
+    '',
+    '| Panel | Compared with | Hunks | Added | Removed | Modified | Moved | Similarity | Largest change |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | --- |',
+  ];
+  const cell = (text: string) => text.replace(/\|/g, '\\|');
+  for (const { title, baseTitle, stats } of panelStats) {
+    const largest = stats.largestBlock
+      ? `${stats.largestBlock.baseCount + stats.largestBlock.newCount} lines at ${formatLineRange(stats.largestBlock.newStart, stats.largestBlock.newCount)}`
+      : '–';
+    lines.push(`| ${cell(title)} | ${cell(baseTitle)} | ${stats.hunks} | ${stats.added} | ${stats.removed} | ${stats.modified} | ${stats.moved} | ${formatPercent(stats.similarity)} | ${largest} |`);
+  }
+  for (const { title, stats } of panelStats) {
+    if (stats.blocks.length === 0) continue;
+    lines.push('', `### ${title}`, '');
+    for (const block of stats.blocks) {
+      lines.push(`- ${formatLineRange(block.newStart, block.newCount)} (base ${formatLineRange(block.baseStart, block.baseCount)})`);
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Renders statistics as JSON for scripts. Similarity is rounded to two decimals, as in the JSON export.
+export const formatStatsJson = (panelStats: PanelStats[]): string => JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  comparisons: panelStats.map(({ title, baseTitle, stats }) => ({
+    title,
+    baseTitle,
+    ...stats,
+    similarity: Number(stats.similarity.toFixed(2)),
+  })),
+}, null, 2);
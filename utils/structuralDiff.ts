@@ -0,0 +1,140 @@
+import { DiffLine, DiffType, StructuralChange, StructureNode } from '../types';
+import { myersDiff } from './myers';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const keyPath = (parent: string, key: string) =>
+  IDENTIFIER.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+
+// A short, one-line rendering of a node for the change list.
+export const formatNodeValue = (node: StructureNode): string => {
+  if (node.kind === 'object') return node.entries.size === 0 ? '{}' : '{…}';
+  if (node.kind === 'array') return node.items.length === 0 ? '[]' : '[…]';
+  return typeof node.value === 'string' ? JSON.stringify(node.value) : String(node.value);
+};
+
+// A canonical form that ignores key order and line positions, for matching array items.
+const canonical = (node: StructureNode): string => {
+  if (node.kind === 'value') return JSON.stringify(node.value);
+  if (node.kind === 'array') return `[${node.items.map(canonical).join(',')}]`;
+  const keys = [...node.entries.keys()].sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonical(node.entries.get(key)!)}`).join(',')}}`;
+};
+
+// An addition points at the container in the base tree that did not hold the value yet.
+const added = (path: string, node: StructureNode, baseContainer: StructureNode): StructuralChange => ({
+  path,
+  kind: 'added',
+  newValue: formatNodeValue(node),
+  startLine: node.startLine,
+  endLine: node.endLine,
+  baseStartLine: baseContainer.startLine,
+  baseEndLine: baseContainer.startLine,
+});
+
+// A removal points at the container in the new tree that no longer holds the value.
+const removed = (path: string, node: StructureNode, container: StructureNode): StructuralChange => ({
+  path,
+  kind: 'removed',
+  oldValue: formatNodeValue(node),
+  startLine: container.startLine,
+  endLine: container.startLine,
+  baseStartLine: node.startLine,
+  baseEndLine: node.endLine,
+});
+
+/**
+ * Compares two parsed documents by path. Object keys are matched by name, so key
+ * order and formatting do not matter. Array items are aligned by content first;
+ * items left over between the aligned ones are compared position by position.
+ * @param base The tree of the base panel.
+ * @param next The tree of the compared panel.
+ * @param path The path of the two nodes, `$` for the document root.
+ */
+export const diffStructures = (base: StructureNode, next: StructureNode, path = '$'): StructuralChange[] => {
+  if (base.kind === 'object' && next.kind === 'object') {
+    const changes: StructuralChange[] = [];
+    for (const [key, baseChild] of base.entries) {
+      const nextChild = next.entries.get(key);
+      if (nextChild) changes.push(...diffStructures(baseChild, nextChild, keyPath(path, key)));
+      else changes.push(removed(keyPath(path, key), baseChild, next));
+    }
+    for (const [key, nextChild] of next.entries) {
+      if (!base.entries.has(key)) changes.push(added(keyPath(path, key), nextChild, base));
+    }
+    return changes.sort((a, b) => a.startLine - b.startLine);
+  }
+
+  if (base.kind === 'array' && next.kind === 'array') {
+    const changes: StructuralChange[] = [];
+    const matches = myersDiff(base.items.map(canonical), next.items.map(canonical));
+    let i = 0;
+    let j = 0;
+    for (const match of [...matches, { baseIndex: base.items.length, newIndex: next.items.length }]) {
+      for (; i < match.baseIndex && j < match.newIndex; i++, j++) {
+        changes.push(...diffStructures(base.items[i], next.items[j], `${path}[${j}]`));
+      }
+      for (; i < match.baseIndex; i++) changes.push(removed(`${path}[${i}]`, base.items[i], next));
+      for (; j < match.newIndex; j++) changes.push(added(`${path}[${j}]`, next.items[j], base));
+      i++;
+      j++;
+    }
+    return changes;
+  }
+
+  if (base.kind === 'value' && next.kind === 'value' && base.value === next.value) return [];
+  return [{
+    path,
+    kind: 'changed',
+    oldValue: formatNodeValue(base),
+    newValue: formatNodeValue(next),
+    startLine: next.startLine,
+    endLine: next.endLine,
+    baseStartLine: base.startLine,
+    baseEndLine: base.endLine,
+  }];
+};
+
+/**
+ * Turns structural changes into a line diff of the compared text, so the editor can
+ * highlight them: the lines of added and changed values are marked added, and the old
+ * lines of changed and removed values are shown as removed lines before them (a removed
+ * value just inside the container it was removed from).
+ */
+export const structuralDiffLines = (baseText: string, text: string, changes: StructuralChange[]): DiffLine[] => {
+  const baseLines = baseText.split('\n');
+  const lines = text.split('\n');
+  const isAdded = lines.map(() => false);
+  // Base lines to show as removed, with the line of the text they go before.
+  const removals: { before: number; baseLine: number }[] = [];
+  for (const change of changes) {
+    if (change.kind !== 'removed') {
+      for (let line = change.startLine; line <= change.endLine && line < lines.length; line++) isAdded[line] = true;
+    }
+    if (change.kind === 'added') continue;
+    const before = Math.min(change.kind === 'removed' ? change.startLine + 1 : change.startLine, lines.length);
+    for (let line = change.baseStartLine; line <= change.baseEndLine && line < baseLines.length; line++) {
+      removals.push({ before, baseLine: line });
+    }
+  }
+  removals.sort((a, b) => a.before - b.before || a.baseLine - b.baseLine);
+
+  // Values on the same base line each report it; it is shown once.
+  const shown = new Set<number>();
+  const diff: DiffLine[] = [];
+  let next = 0;
+  const addRemovedBefore = (line: number) => {
+    for (; next < removals.length && removals[next].before <= line; next++) {
+      const { baseLine } = removals[next];
+      if (shown.has(baseLine)) continue;
+      shown.add(baseLine);
+      diff.push({ type: DiffType.Removed, text: baseLines[baseLine] });
+    }
+  };
+  lines.forEach((line, i) => {
+    addRemovedBefore(i);
+    diff.push({ type: isAdded[i] ? DiffType.Added : DiffType.Unchanged, text: line });
+  });
+  addRemovedBefore(lines.length);
+  return diff;
+};
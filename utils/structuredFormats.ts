@@ -0,0 +1,52 @@
+import { StructuredFormat, StructureNode } from '../types';
+import { parseEnvTree } from './envTree';
+import { parseIniTree } from './iniTree';
+import { parseJsonTree } from './jsonTree';
+import { parseYamlTree } from './yamlTree';
+
+export interface StructuredFormatParser {
+  id: StructuredFormat;
+  label: string;
+  // Lower-case title suffixes that select this format in auto mode.
+  extensions: string[];
+  parse: (text: string) => StructureNode;
+}
+
+export const structuredFormats: Record<StructuredFormat, StructuredFormatParser> = {
+  json: {
+    id: 'json',
+    label: 'JSON',
+    extensions: ['.json'],
+    parse: parseJsonTree,
+  },
+  yaml: {
+    id: 'yaml',
+    label: 'YAML',
+    extensions: ['.yaml', '.yml'],
+    parse: parseYamlTree,
+  },
+  ini: {
+    id: 'ini',
+    label: 'INI',
+    extensions: ['.ini', '.cfg', '.conf', '.properties'],
+    parse: parseIniTree,
+  },
+  env: {
+    id: 'env',
+    label: '.env',
+    extensions: ['.env'],
+    parse: parseEnvTree,
+  },
+};
+
+/**
+ * Picks a structured format from a panel title's extension, the way
+ * `getLanguageFromTitle` picks a highlighting language. Titles like `.env.production`
+ * count as .env files.
+ */
+export const getStructuredFormatFromTitle = (title: string): StructuredFormat | null => {
+  const lowerTitle = title.toLowerCase();
+  if (/(^|\/)\.env(\.|$)/.test(lowerTitle)) return 'env';
+  const format = Object.values(structuredFormats).find(f => f.extensions.some(ext => lowerTitle.endsWith(ext)));
+  return format ? format.id : null;
+};
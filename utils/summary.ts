@@ -1,35 +1,122 @@
 
-import { DiffLine, DiffType, PanelData } from '../types';
+import { DiffLine, DiffOptions, DiffType, PanelData, StructuralChange, StructuralDiff, TableDiff } from '../types';
+import { countTableChanges } from './tableDiff';
 
+// Describes the normalizations that were applied, e.g. "ignoring whitespace and case".
+const describeOptions = (options: DiffOptions): string => {
+    const ignored: string[] = [];
+    if (options.ignoreWhitespace) ignored.push('whitespace');
+    if (options.ignoreCase) ignored.push('case');
+    if (options.ignoreLineEndings) ignored.push('line endings');
+    if (options.ignoreBlankLines) ignored.push('blank lines');
+    if (options.tokenDiff && options.ignoreComments) ignored.push('comments');
+    const ruleCount = options.ignoreRules.filter(rule => rule.enabled && rule.pattern).length;
+    if (ruleCount > 0) ignored.push(`text matching ${ruleCount} ignore ${ruleCount === 1 ? 'rule' : 'rules'}`);
+    if (ignored.length === 0) return '';
+    const list = ignored.length === 1 ? ignored[0] : `${ignored.slice(0, -1).join(', ')} and ${ignored[ignored.length - 1]}`;
+    return ` (ignoring ${list})`;
+};
+
+// Formats a count with its noun, e.g. "1 cell" or "3 cells".
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Summarizes the line diffs of all panels. Panels given a table diff (that could be
+ * computed) are counted by rows and cells instead of lines.
+ */
 export const generateSimpleSummary = (
     diffResults: (DiffLine[] | null)[], 
-    panels: PanelData[]
+    panels: PanelData[],
+    options: DiffOptions,
+    tableDiffs?: (TableDiff | null)[]
 ): string => {
     let totalAdded = 0;
     let totalRemoved = 0;
+    let totalMovedBlocks = 0;
+    let totalMovedLines = 0;
+    const rowTotals = { added: 0, removed: 0, changed: 0, changedCells: 0, addedColumns: 0, removedColumns: 0 };
     const changedFileTitles: string[] = [];
 
     diffResults.forEach((diff, index) => {
-        if (diff && index > 0) { // index 0 is the base, has no diff
-            const added = diff.filter(line => line.type === DiffType.Added).length;
-            const removed = diff.filter(line => line.type === DiffType.Removed).length;
+        const table = tableDiffs?.[index];
+        if (table && !table.error) {
+            const counts = countTableChanges(table);
+            (Object.keys(rowTotals) as (keyof typeof rowTotals)[]).forEach(key => { rowTotals[key] += counts[key]; });
+            if (Object.values(counts).some(count => count > 0)) changedFileTitles.push(panels[index].title);
+            return;
+        }
+        if (diff) { // the base panel has no diff
+            const added = diff.filter(line => line.type === DiffType.Added && !line.ignored && !line.move).length;
+            const removed = diff.filter(line => line.type === DiffType.Removed && !line.ignored && !line.move).length;
+            const movedLines = diff.filter(line => line.move?.role === 'destination');
+            const movedBlocks = new Set(movedLines.map(line => line.move!.id)).size;
 
-            if (added > 0 || removed > 0) {
+            if (added > 0 || removed > 0 || movedBlocks > 0) {
                 totalAdded += added;
                 totalRemoved += removed;
+                totalMovedBlocks += movedBlocks;
+                totalMovedLines += movedLines.length;
                 changedFileTitles.push(panels[index].title);
             }
         }
     });
 
-    if (totalAdded === 0 && totalRemoved === 0) {
-        return "No differences found between the panels.";
+    const hasLineChanges = totalAdded > 0 || totalRemoved > 0 || totalMovedBlocks > 0;
+    const hasTableChanges = Object.values(rowTotals).some(count => count > 0);
+    if (!hasLineChanges && !hasTableChanges) {
+        return `No differences found between the panels${describeOptions(options)}.`;
     }
 
-    let summary = `Found ${totalAdded} additions and ${totalRemoved} removals.`;
+    const findings: string[] = [];
+    if (hasLineChanges) {
+        findings.push(`Found ${totalAdded} additions and ${totalRemoved} removals${describeOptions(options)}.`);
+    }
+    if (totalMovedBlocks > 0) {
+        findings.push(`${totalMovedBlocks} ${totalMovedBlocks === 1 ? 'block' : 'blocks'} (${totalMovedLines} lines) moved without changes.`);
+    }
+    if (hasTableChanges) {
+        findings.push(`Found ${rowTotals.added} added, ${rowTotals.removed} removed and ${rowTotals.changed} changed table rows (${plural(rowTotals.changedCells, 'cell')} changed).`);
+    }
+    if (rowTotals.addedColumns > 0 || rowTotals.removedColumns > 0) {
+        findings.push(`${plural(rowTotals.addedColumns, 'column')} added and ${plural(rowTotals.removedColumns, 'column')} removed.`);
+    }
+    let summary = findings.join('\n');
     if (changedFileTitles.length > 0) {
         summary += `\nChanges were detected in: ${changedFileTitles.join(', ')}.`;
     }
 
     return summary;
 };
+
+// Paths listed per panel before the rest are only counted.
+const MAX_LISTED_PATHS = 10;
+
+export const generateStructuralSummary = (
+    structuralDiffs: (StructuralDiff | null)[],
+    panels: PanelData[]
+): string => {
+    const lines: string[] = [];
+    let total = 0;
+
+    structuralDiffs.forEach((diff, index) => {
+        if (!diff) return;
+        const title = panels[index].title;
+        if (diff.error) {
+            lines.push(`${title}: ${diff.error}`);
+            return;
+        }
+        if (diff.changes.length === 0) return;
+        total += diff.changes.length;
+        const count = (kind: StructuralChange['kind']) => diff.changes.filter(change => change.kind === kind).length;
+        lines.push(`${title}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed.`);
+        diff.changes.slice(0, MAX_LISTED_PATHS).forEach(change => {
+            lines.push(`  ${change.path}: ${change.oldValue ?? '∅'} → ${change.newValue ?? '∅'}`);
+        });
+        if (diff.changes.length > MAX_LISTED_PATHS) {
+            lines.push(`  …and ${diff.changes.length - MAX_LISTED_PATHS} more.`);
+        }
+    });
+
+    const heading = total === 0 ? 'No structural differences found between the panels.' : `Found ${total} structural changes.`;
+    return [heading, ...lines].join('\n');
+};
@@ -0,0 +1,175 @@
+import { DiffLine, DiffType, Table, TableCell, TableColumnChange, TableDiff, TableRowChange } from '../types';
+import { myersDiff } from './myers';
+
+// Joins cell values into one string without letting "a,b" + "c" equal "a" + "b,c".
+const joinValues = (values: string[]) => values.join('\u0000');
+
+/**
+ * Pairs up the rows of two tables by their keys. With key columns, rows with equal
+ * keys are paired (repeated keys in order of appearance), so re-sorting a table
+ * changes nothing. Without, the keys are the rows' contents: rows are aligned by
+ * them, and rows left over between the aligned ones are paired by position.
+ * @returns Index pairs, -1 standing for a row missing on that side, in display order.
+ */
+const pairRows = (baseKeys: string[], nextKeys: string[], isKeyed: boolean): [number, number][] => {
+  const pairs: [number, number][] = [];
+  if (!isKeyed) {
+    const matches = myersDiff(baseKeys, nextKeys);
+    let i = 0;
+    let j = 0;
+    for (const match of [...matches, { baseIndex: baseKeys.length, newIndex: nextKeys.length }]) {
+      for (; i < match.baseIndex && j < match.newIndex; i++, j++) pairs.push([i, j]);
+      for (; i < match.baseIndex; i++) pairs.push([i, -1]);
+      for (; j < match.newIndex; j++) pairs.push([-1, j]);
+      if (i < baseKeys.length) pairs.push([i++, j++]);
+    }
+    return pairs;
+  }
+
+  const baseRowsByKey = new Map<string, number[]>();
+  baseKeys.forEach((key, i) => {
+    const baseRows = baseRowsByKey.get(key);
+    if (baseRows) baseRows.push(i);
+    else baseRowsByKey.set(key, [i]);
+  });
+  // How many of the base rows with each key are paired already; they are taken in order.
+  const pairedCounts = new Map<string, number>();
+  const pairedBaseRows = new Set<number>();
+  const partners = nextKeys.map(key => {
+    const baseRows = baseRowsByKey.get(key);
+    const paired = pairedCounts.get(key) ?? 0;
+    if (!baseRows || paired === baseRows.length) return -1;
+    pairedCounts.set(key, paired + 1);
+    pairedBaseRows.add(baseRows[paired]);
+    return baseRows[paired];
+  });
+
+  // Removed rows are shown before the first compared row that followed them in the base table.
+  let nextUnpaired = 0;
+  const flushRemoved = (upTo: number) => {
+    for (; nextUnpaired < upTo; nextUnpaired++) {
+      if (!pairedBaseRows.has(nextUnpaired)) pairs.push([nextUnpaired, -1]);
+    }
+  };
+  partners.forEach((baseRow, j) => {
+    if (baseRow !== -1) flushRemoved(baseRow);
+    pairs.push([baseRow, j]);
+  });
+  flushRemoved(baseKeys.length);
+  return pairs;
+};
+
+/**
+ * Compares two tables row by row and cell by cell. Columns are matched by name, so
+ * reordering columns changes nothing; columns only one table has are reported as
+ * added or removed, and their cells do not make a row count as changed.
+ * @param keyColumns Names of the columns that identify a row. Empty to align rows by content.
+ * @returns The diff, with `error` set if a key column is missing from either table.
+ */
+export const diffTables = (base: Table, next: Table, keyColumns: string[]): TableDiff => {
+  const missing = keyColumns.find(name => !base.columns.includes(name) || !next.columns.includes(name));
+  if (missing !== undefined) {
+    return { columns: [], rows: [], error: `Key column "${missing}" is not in both tables.` };
+  }
+
+  const names = [...base.columns, ...next.columns.filter(name => !base.columns.includes(name))];
+  const columns: TableColumnChange[] = names.map(name => ({
+    name,
+    status: !next.columns.includes(name) ? 'removed' : !base.columns.includes(name) ? 'added' : 'kept',
+    changedCells: 0,
+  }));
+  const baseIndexes = names.map(name => base.columns.indexOf(name));
+  const nextIndexes = names.map(name => next.columns.indexOf(name));
+
+  // Without key columns, rows are identified by the columns both tables have.
+  const isKeyed = keyColumns.length > 0;
+  const matchColumns = isKeyed ? keyColumns : names.filter((_, c) => columns[c].status === 'kept');
+  const keyOf = (table: Table, row: string[]) => matchColumns.map(name => row[table.columns.indexOf(name)]);
+  const baseKeys = base.rows.map(row => joinValues(keyOf(base, row)));
+  const nextKeys = next.rows.map(row => joinValues(keyOf(next, row)));
+
+  const rows = pairRows(baseKeys, nextKeys, isKeyed).map(([i, j]): TableRowChange => {
+    const baseRow = i === -1 ? undefined : base.rows[i];
+    const nextRow = j === -1 ? undefined : next.rows[j];
+    const cells = names.map((_, c): TableCell => ({
+      value: nextRow && nextIndexes[c] !== -1 ? nextRow[nextIndexes[c]] : undefined,
+      oldValue: baseRow && baseIndexes[c] !== -1 ? baseRow[baseIndexes[c]] : undefined,
+    }));
+
+    let kind: TableRowChange['kind'] = !baseRow ? 'added' : !nextRow ? 'removed' : 'unchanged';
+    if (kind === 'unchanged') {
+      cells.forEach((cell, c) => {
+        if (columns[c].status !== 'kept' || cell.value === cell.oldValue) return;
+        columns[c].changedCells++;
+        kind = 'changed';
+      });
+    }
+
+    const sourceRow = nextRow ?? baseRow!;
+    const sourceTable = nextRow ? next : base;
+    return {
+      kind,
+      key: isKeyed ? keyOf(sourceTable, sourceRow).join(', ') : String((nextRow ? j : i) + 1),
+      cells,
+      line: nextRow ? next.rowLines[j] : undefined,
+      baseLine: baseRow ? base.rowLines[i] : undefined,
+    };
+  });
+
+  return { columns, rows, error: null };
+};
+
+// The lines each row of a text spans, by the row's first line; blank lines after a row are not part of it.
+const rowSpans = (lines: string[], rowStarts: number[]): Map<number, number> => {
+  const starts = [...rowStarts].sort((a, b) => a - b);
+  const ends = new Map<number, number>();
+  starts.forEach((start, k) => {
+    let end = starts[k + 1] ?? lines.length;
+    while (end > start + 1 && lines[end - 1].trim() === '') end--;
+    ends.set(start, end);
+  });
+  return ends;
+};
+
+/**
+ * Turns a table diff into a line diff of the compared text, e.g. for statistics: the lines
+ * of added rows are added, those of removed rows removed, and a changed row is its base
+ * lines removed followed by its new lines added. Other lines, such as the header, are unchanged.
+ */
+export const tableDiffLines = (baseText: string, text: string, diff: TableDiff): DiffLine[] => {
+  const baseLines = baseText.split('\n');
+  const lines = text.split('\n');
+  const baseEnds = rowSpans(baseLines, diff.rows.flatMap(row => (row.baseLine === undefined ? [] : [row.baseLine])));
+  const ends = rowSpans(lines, diff.rows.flatMap(row => (row.line === undefined ? [] : [row.line])));
+
+  const result: DiffLine[] = [];
+  let position = 0;
+  const pushLines = (from: string[], start: number, end: number, type: DiffType) => {
+    for (let line = start; line < end; line++) result.push({ type, text: from[line] });
+  };
+  for (const row of diff.rows) {
+    if (row.line !== undefined) {
+      pushLines(lines, position, row.line, DiffType.Unchanged);
+      position = row.line;
+    }
+    if (row.kind !== 'unchanged' && row.kind !== 'added' && row.baseLine !== undefined) {
+      pushLines(baseLines, row.baseLine, baseEnds.get(row.baseLine)!, DiffType.Removed);
+    }
+    if (row.line !== undefined) {
+      position = ends.get(row.line)!;
+      pushLines(lines, row.line, position, row.kind === 'unchanged' ? DiffType.Unchanged : DiffType.Added);
+    }
+  }
+  pushLines(lines, position, lines.length, DiffType.Unchanged);
+  return result;
+};
+
+// Row counts of a table diff, for summaries.
+export const countTableChanges = (diff: TableDiff) => ({
+  added: diff.rows.filter(row => row.kind === 'added').length,
+  removed: diff.rows.filter(row => row.kind === 'removed').length,
+  changed: diff.rows.filter(row => row.kind === 'changed').length,
+  changedCells: diff.columns.reduce((sum, column) => sum + column.changedCells, 0),
+  addedColumns: diff.columns.filter(column => column.status === 'added').length,
+  removedColumns: diff.columns.filter(column => column.status === 'removed').length,
+});
@@ -0,0 +1,140 @@
+import { CompareMode, DiffAlgorithm, DiffOptions, DiffViewMode, EditorTheme, IgnoreRule, InlineDiffGranularity, PanelData, ThreePanelLayout, Workspace } from '../types';
+import { DEFAULT_DIFF_OPTIONS } from './diff';
+
+// Identifies exported workspace files; the version goes up when the format changes incompatibly.
+const WORKSPACE_FILE_FORMAT = 'codediff-workspace';
+const WORKSPACE_FILE_VERSION = 1;
+const MAX_PANELS = 4;
+
+export const DEFAULT_WORKSPACE_NAME = 'Untitled workspace';
+
+const THEMES: EditorTheme[] = ['dark', 'light', 'solarized'];
+const LAYOUTS: ThreePanelLayout[] = ['stacked', 'side-by-side'];
+const VIEW_MODES: DiffViewMode[] = ['inline', 'split'];
+const COMPARE_MODES: CompareMode[] = ['base', 'chain'];
+const ALGORITHMS: DiffAlgorithm[] = ['myers', 'patience', 'histogram'];
+const GRANULARITIES: InlineDiffGranularity[] = ['word', 'char', 'token'];
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T => (
+  allowed.includes(value as T) ? (value as T) : fallback
+);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBoolean = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+const toPanel = (value: unknown): PanelData | null => {
+  if (!isObject(value) || typeof value.text !== 'string') return null;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    title: typeof value.title === 'string' ? value.title : '',
+    text: value.text,
+    ...(typeof value.language === 'string' ? { language: value.language } : {}),
+  };
+};
+
+// A rule needs a pattern; its switches default to those of a new rule.
+const toIgnoreRule = (value: unknown): IgnoreRule | null => {
+  if (!isObject(value) || typeof value.pattern !== 'string') return null;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    pattern: value.pattern,
+    enabled: toBoolean(value.enabled, true),
+    useRegex: toBoolean(value.useRegex, false),
+    caseSensitive: toBoolean(value.caseSensitive, false),
+    ...(typeof value.wholeWord === 'boolean' ? { wholeWord: value.wholeWord } : {}),
+  };
+};
+
+// Each option of the wrong type or missing falls back to its default.
+const toDiffOptions = (value: unknown): DiffOptions => {
+  if (!isObject(value)) return DEFAULT_DIFF_OPTIONS;
+  const defaults = DEFAULT_DIFF_OPTIONS;
+  return {
+    algorithm: pick(value.algorithm, ALGORITHMS, defaults.algorithm),
+    ignoreWhitespace: toBoolean(value.ignoreWhitespace, defaults.ignoreWhitespace),
+    ignoreCase: toBoolean(value.ignoreCase, defaults.ignoreCase),
+    ignoreLineEndings: toBoolean(value.ignoreLineEndings, defaults.ignoreLineEndings),
+    ignoreBlankLines: toBoolean(value.ignoreBlankLines, defaults.ignoreBlankLines),
+    detectMoves: toBoolean(value.detectMoves, defaults.detectMoves),
+    inlineGranularity: pick(value.inlineGranularity, GRANULARITIES, defaults.inlineGranularity),
+    tokenDiff: toBoolean(value.tokenDiff, defaults.tokenDiff),
+    ignoreComments: toBoolean(value.ignoreComments, defaults.ignoreComments),
+    ignoreRules: Array.isArray(value.ignoreRules)
+      ? value.ignoreRules.map(toIgnoreRule).filter((rule): rule is IgnoreRule => rule !== null)
+      : [],
+  };
+};
+
+/**
+ * Checks a stored or imported workspace and fills in the settings it lacks, such as
+ * ones added since it was saved.
+ * @throws Error if it has no panels to show.
+ */
+export const normalizeWorkspace = (value: unknown): Workspace => {
+  if (!isObject(value)) throw new Error('The workspace is empty.');
+  const panels = (Array.isArray(value.panels) ? value.panels : [])
+    .map(toPanel)
+    .filter((panel): panel is PanelData => panel !== null)
+    .slice(0, MAX_PANELS);
+  if (panels.length === 0) throw new Error('The workspace has no panels.');
+  // Ids must be unique, as folds and the base panel refer to panels by id.
+  panels.forEach((panel, i) => {
+    if (panels.findIndex(other => other.id === panel.id) !== i) panel.id = crypto.randomUUID();
+  });
+
+  const foldedLines: Record<string, number[]> = {};
+  const storedFolds = value.foldedLines;
+  if (isObject(storedFolds)) {
+    panels.forEach(panel => {
+      const lines = storedFolds[panel.id];
+      if (Array.isArray(lines)) foldedLines[panel.id] = lines.filter((line): line is number => Number.isInteger(line) && line > 0);
+    });
+  }
+  const basePanel = panels.find(panel => panel.id === value.basePanelId) ?? panels[0];
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : DEFAULT_WORKSPACE_NAME,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : Date.now(),
+    panels,
+    theme: pick(value.theme, THEMES, 'dark'),
+    threePanelLayout: pick(value.threePanelLayout, LAYOUTS, 'stacked'),
+    viewMode: pick(value.viewMode, VIEW_MODES, 'inline'),
+    compareMode: pick(value.compareMode, COMPARE_MODES, 'base'),
+    basePanelId: basePanel.id,
+    diffOptions: toDiffOptions(value.diffOptions),
+    foldedLines,
+  };
+};
+
+/**
+ * Writes a workspace as the JSON of an exported workspace file.
+ */
+export const serializeWorkspace = (workspace: Workspace): string => (
+  JSON.stringify({ format: WORKSPACE_FILE_FORMAT, version: WORKSPACE_FILE_VERSION, workspace }, null, 2)
+);
+
+/**
+ * Reads an exported workspace file. The workspace gets a new id, so importing a file
+ * twice, or into the browser it came from, adds a copy rather than replacing one.
+ * @throws Error if the file is not a workspace this version can read.
+ */
+export const parseWorkspaceFile = (text: string): Workspace => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(file) || file.format !== WORKSPACE_FILE_FORMAT) throw new Error('The file is not a CodeDiff workspace.');
+  if (typeof file.version !== 'number' || file.version > WORKSPACE_FILE_VERSION) {
+    throw new Error('The workspace was saved by a newer version of CodeDiff.');
+  }
+  return { ...normalizeWorkspace(file.workspace), id: crypto.randomUUID() };
+};
+
+// A file name for an exported workspace, safe on common file systems.
+export const getWorkspaceFileName = (workspace: Workspace): string => (
+  `${workspace.name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'workspace'}.codediff.json`
+);
@@ -0,0 +1,305 @@
+import { StructureNode } from '../types';
+
+// A significant line: indentation, content without its comment, and 0-based line number.
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+type ScalarValue = string | number | boolean | null;
+
+const DOCUMENT_MARKER = /^(?:---|\.\.\.)(?:\s|$)/;
+const KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'{[].*?)\s*:(?:\s+(.*))?$/;
+const BLOCK_SCALAR = /^([|>])([+-]?)\d*$/;
+const TAGS = /^(?:!\S*\s*)+/;
+// Anchors (`&name`) and aliases (`*name`) share nodes, which a tree of lines cannot show.
+const ANCHOR_OR_ALIAS = /^[&*]/;
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+// Removes a trailing comment: a `#` at the start or after whitespace, outside quotes.
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const resolvePlain = (text: string): ScalarValue => {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) return Number(text);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  return text;
+};
+
+const unquoteDouble = (body: string): string => {
+  try {
+    return JSON.parse(`"${body.replace(/\t/g, '\\t')}"`);
+  } catch {
+    return body;
+  }
+};
+
+const unquoteKey = (key: string) => {
+  if (key.startsWith('"')) return unquoteDouble(key.slice(1, -1));
+  if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+  return key;
+};
+
+/**
+ * Parses YAML into a tree that remembers which lines each value spans. Covers the subset
+ * configuration files mostly use: one document of block mappings and sequences, flow
+ * collections on a single line, quoted, plain and block (`|`, `>`) scalars, and comments.
+ * Tags are ignored. Anchors, aliases, flow collections spanning lines and streams of
+ * several documents are rejected rather than guessed at, so such files are compared
+ * line by line instead.
+ * @throws An error naming the line of the first construct that cannot be parsed or is not supported.
+ */
+export const parseYamlTree = (text: string): StructureNode => {
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  let pos = 0;
+  let end = 0;
+  // The content after "- " of a sequence item, parsed as if it started its own line.
+  let pending: YamlLine | null = null;
+
+  const fail = (message: string, line: number): never => {
+    throw new Error(`${message} at line ${line + 1}`);
+  };
+
+  const peek = (): YamlLine | null => {
+    if (pending) return pending;
+    for (; pos < end; pos++) {
+      const raw = lines[pos];
+      const content = stripComment(raw);
+      if (content.trim() === '') continue;
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.slice(0, indent).includes('\t')) fail('Tabs cannot be used for indentation', pos);
+      return { indent, text: content.slice(indent), line: pos };
+    }
+    return null;
+  };
+
+  const take = () => {
+    if (pending) pending = null;
+    else pos++;
+  };
+
+  const scalar = (value: ScalarValue, startLine: number, endLine = startLine): StructureNode =>
+    ({ kind: 'value', value, startLine, endLine });
+
+  // Flow collections (`[a, b]`, `{a: 1}`) on one line.
+  const parseFlow = (source: string, startLine: number, endLine: number): StructureNode => {
+    let i = 0;
+    const skip = () => {
+      while (i < source.length && /\s/.test(source[i])) i++;
+    };
+    const parseItem = (): StructureNode => {
+      skip();
+      const open = source[i];
+      if (open === '[' || open === '{') {
+        i++;
+        const items: StructureNode[] = [];
+        const entries = new Map<string, StructureNode>();
+        const close = open === '[' ? ']' : '}';
+        skip();
+        while (source[i] !== close) {
+          if (i >= source.length) fail(`Unclosed "${open}"`, startLine);
+          if (open === '[') {
+            items.push(parseItem());
+          } else {
+            const key = parseItem();
+            skip();
+            let value: StructureNode = scalar(null, startLine, endLine);
+            if (source[i] === ':') {
+              i++;
+              value = parseItem();
+            }
+            entries.set(String(key.kind === 'value' ? key.value : ''), value);
+          }
+          skip();
+          if (source[i] === ',') i++;
+          else if (source[i] !== close) fail(`Expected "," or "${close}"`, startLine);
+          skip();
+        }
+        i++;
+        return open === '['
+          ? { kind: 'array', items, startLine, endLine }
+          : { kind: 'object', entries, startLine, endLine };
+      }
+      if (ANCHOR_OR_ALIAS.test(open)) fail('Anchors and aliases are not supported', startLine);
+      if (open === '"' || open === "'") {
+        const quote = /^"((?:[^"\\]|\\.)*)"|^'((?:[^']|'')*)'/.exec(source.slice(i));
+        if (!quote) return fail('Unterminated quoted string', startLine);
+        i += quote[0].length;
+        return scalar(quote[1] !== undefined ? unquoteDouble(quote[1]) : quote[2].replace(/''/g, "'"), startLine, endLine);
+      }
+      const plain = /^[^,\]}]*?(?=\s*(?:[,\]}]|:\s|:$|$))/.exec(source.slice(i))![0];
+      i += plain.length;
+      return scalar(resolvePlain(plain.trim()), startLine, endLine);
+    };
+    return parseItem();
+  };
+
+  // Literal (`|`) and folded (`>`) block scalars: every following line indented past the parent.
+  const parseBlockScalar = (style: string, chomping: string, parentIndent: number, startLine: number): StructureNode => {
+    const body: string[] = [];
+    let lastLine = startLine;
+    while (pos < end) {
+      const raw = lines[pos];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() !== '' && indent <= parentIndent) break;
+      body.push(raw);
+      if (raw.trim() !== '') lastLine = pos;
+      pos++;
+    }
+    const contentIndent = Math.min(...body.filter(line => line.trim() !== '').map(line => line.length - line.trimStart().length));
+    const contentLines = body.map(line => line.slice(Number.isFinite(contentIndent) ? contentIndent : 0));
+    let trailing = 0;
+    while (trailing < contentLines.length && contentLines[contentLines.length - 1 - trailing].trim() === '') trailing++;
+    const kept = contentLines.slice(0, contentLines.length - trailing);
+
+    let value = style === '|'
+      ? kept.join('\n')
+      : kept.reduce((folded, line, k) => {
+        if (k === 0) return line;
+        if (line === '' || kept[k - 1] === '' || /^\s/.test(line)) return `${folded}\n${line}`;
+        return `${folded} ${line}`;
+      }, '');
+    if (chomping === '+') value += '\n'.repeat(trailing + (kept.length > 0 ? 1 : 0));
+    else if (chomping !== '-' && kept.length > 0) value += '\n';
+
+    // Trailing blank lines belong to whatever comes next.
+    pos -= body.length - (lastLine - startLine);
+    return scalar(value, startLine, lastLine);
+  };
+
+  // The value after "key:" or "- " on the same line, plus any lines that belong to it.
+  const parseInlineValue = (rawValue: string, parentIndent: number, line: number): StructureNode => {
+    const value = rawValue.replace(TAGS, '');
+    if (ANCHOR_OR_ALIAS.test(value)) fail('Anchors and aliases are not supported', line);
+    if (value === '') {
+      const next = peek();
+      if (next && next.indent > parentIndent) return withStart(parseNode(parentIndent)!, line);
+      if (next && next.indent === parentIndent && isSequenceItem(next.text)) return withStart(parseSequence(parentIndent), line);
+      return scalar(null, line);
+    }
+
+    const block = BLOCK_SCALAR.exec(value);
+    if (block) return parseBlockScalar(block[1], block[2], parentIndent, line);
+
+    // Quoted strings may continue on the following lines.
+    let source = value;
+    let lastLine = line;
+    const isOpen = () => {
+      if (source.startsWith('"')) return !/^"(?:[^"\\]|\\.)*"/.test(source);
+      if (source.startsWith("'")) return !/^'(?:[^']|'')*'/.test(source);
+      if (source.startsWith('[') || source.startsWith('{')) {
+        const opened = (source.match(/[[{]/g) ?? []).length;
+        const closed = (source.match(/[\]}]/g) ?? []).length;
+        return opened > closed;
+      }
+      return false;
+    };
+    while (isOpen()) {
+      if (/^[[{]/.test(source)) fail('Flow collections spanning several lines are not supported', line);
+      if (pos >= end) fail('Unterminated value', line);
+      source += ' ' + stripComment(lines[pos]).trim();
+      lastLine = pos++;
+    }
+
+    if (source.startsWith('[') || source.startsWith('{')) return parseFlow(source, line, lastLine);
+    if (source.startsWith('"')) return scalar(unquoteDouble(/^"((?:[^"\\]|\\.)*)"/.exec(source)![1]), line, lastLine);
+    if (source.startsWith("'")) return scalar(/^'((?:[^']|'')*)'/.exec(source)![1].replace(/''/g, "'"), line, lastLine);
+
+    // Plain scalars continue on more-indented lines, joined by spaces.
+    let next = peek();
+    while (next && next.indent > parentIndent && !pending) {
+      source += ' ' + next.text.trim();
+      lastLine = next.line;
+      take();
+      next = peek();
+    }
+    return scalar(resolvePlain(source), line, lastLine);
+  };
+
+  const withStart = (node: StructureNode, startLine: number): StructureNode => ({ ...node, startLine });
+
+  const parseMapping = (indent: number): StructureNode => {
+    const entries = new Map<string, StructureNode>();
+    const startLine = peek()!.line;
+    let endLine = startLine;
+    for (let next = peek(); next && next.indent >= indent; next = peek()) {
+      if (next.indent > indent) fail('Unexpected indentation', next.line);
+      if (isSequenceItem(next.text)) fail('Unexpected sequence item in a mapping', next.line);
+      const entry = KEY.exec(next.text);
+      if (!entry) fail('Expected "key: value"', next.line);
+      take();
+      const value = parseInlineValue(entry![2] ?? '', indent, next.line);
+      const key = unquoteKey(entry![1]);
+      entries.delete(key);
+      entries.set(key, value);
+      endLine = Math.max(endLine, value.endLine);
+    }
+    return { kind: 'object', entries, startLine, endLine };
+  };
+
+  const parseSequence = (indent: number): StructureNode => {
+    const items: StructureNode[] = [];
+    const startLine = peek()!.line;
+    let endLine = startLine;
+    for (let next = peek(); next && next.indent >= indent && isSequenceItem(next.text); next = peek()) {
+      if (next.indent > indent) fail('Unexpected indentation', next.line);
+      take();
+      const rest = next.text.slice(1).trimStart();
+      let item: StructureNode;
+      if (rest !== '' && (isSequenceItem(rest) || (KEY.test(rest) && !/^[[{]/.test(rest)))) {
+        // "- key: value" starts a nested collection whose indentation is that of its content.
+        pending = { indent: next.indent + next.text.length - rest.length, text: rest, line: next.line };
+        item = parseNode(indent)!;
+      } else {
+        item = parseInlineValue(rest, indent, next.line);
+      }
+      items.push(item);
+      endLine = Math.max(endLine, item.endLine);
+    }
+    return { kind: 'array', items, startLine, endLine };
+  };
+
+  // The collection or scalar on the next line, if it is indented past `parentIndent`.
+  const parseNode = (parentIndent: number): StructureNode | null => {
+    const next = peek();
+    if (!next || next.indent <= parentIndent) return null;
+    if (isSequenceItem(next.text)) return parseSequence(next.indent);
+    if (KEY.test(next.text) && !/^[[{]/.test(next.text)) return parseMapping(next.indent);
+    take();
+    return parseInlineValue(next.text, parentIndent, next.line);
+  };
+
+  const documents: StructureNode[] = [];
+  let start = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    if (i < lines.length && !DOCUMENT_MARKER.test(lines[i])) continue;
+    pos = start;
+    end = i;
+    const root = parseNode(-1);
+    const rest = peek();
+    if (rest) fail('Unexpected content', rest.line);
+    if (root) documents.push(root);
+    start = i + 1;
+  }
+
+  if (documents.length > 1) fail('Streams of several documents are not supported', documents[1].startLine);
+  return documents[0] ?? scalar(null, 0);
+};